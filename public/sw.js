@@ -0,0 +1,74 @@
+// Service worker: keeps the app shell and built assets available offline.
+// Word data for offline play lives in downloaded level packs (localStorage),
+// and /api calls are never cached; unsent records are queued by the app.
+
+// Sets self.PRECACHE_ASSETS to the hashed files of this build (see vite.config.ts)
+importScripts("/sw-assets.js");
+
+const CACHE = "ielts-game-v1";
+const SHELL = ["/", "/manifest.webmanifest", "/icon.svg", "/icon-maskable.svg"];
+const ASSETS = self.PRECACHE_ASSETS || [];
+const FONT_HOSTS = ["fonts.googleapis.com", "fonts.gstatic.com"];
+
+// The whole build is cached up front, so the app works offline after the first visit
+self.addEventListener("install", event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll([...SHELL, ...ASSETS])).then(() => self.skipWaiting()));
+});
+
+// Drops other caches, and built files that are no longer part of this build
+async function pruneCaches() {
+  const keys = await caches.keys();
+  await Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key)));
+  const cache = await caches.open(CACHE);
+  const requests = await cache.keys();
+  await Promise.all(requests
+    .filter(request => new URL(request.url).pathname.startsWith("/assets/") && !ASSETS.includes(new URL(request.url).pathname))
+    .map(request => cache.delete(request)));
+}
+
+self.addEventListener("activate", event => {
+  event.waitUntil(pruneCaches().then(() => self.clients.claim()));
+});
+
+async function networkFirst(request, fallbackUrl) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(fallbackUrl, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(fallbackUrl);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Built assets have hashed names, so a cached copy never goes stale
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === "opaque") cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener("fetch", event => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  // Pages always load the latest index.html when online
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, "/"));
+    return;
+  }
+  if (url.origin === self.location.origin && !url.pathname.startsWith("/api/")) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+  if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  }
+  // Everything else (Sheets, Gemini, the records API) goes straight to the network
+});
@@ -0,0 +1,120 @@
+import express from "express";
+import type { DB } from "./db";
+import { HttpError } from "./errors";
+import { DEFAULT_TRACK_ID, isTrackId } from "../src/game/curriculum";
+import {
+  getLeaderboard,
+  isQuestionMode,
+  listClassRecords,
+  listPlayerHistory,
+  saveLevelResult,
+  validateLevelResult
+} from "./records";
+import {
+  classReportToCsv,
+  createAssignment,
+  createClass,
+  getClass,
+  getClassReport,
+  joinClass,
+  listAssignments,
+  requireTeacher
+} from "./classes";
+
+function parseLimit(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? Math.min(n, 200) : fallback;
+}
+
+export function createApp(db: DB) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+
+  app.get("/api/health", (_req, res) => {
+    res.json({ ok: true });
+  });
+
+  // Save a finished level
+  app.post("/api/records", (req, res) => {
+    const result = validateLevelResult(req.body);
+    const id = saveLevelResult(db, result);
+    res.status(201).json({ id });
+  });
+
+  // Records of one class, for teachers (X-Teacher-Key header)
+  app.get("/api/records", (req, res) => {
+    const classId = String(req.query.classId ?? "");
+    requireTeacher(db, classId, req.get("X-Teacher-Key"));
+    res.json(listClassRecords(db, classId, parseLimit(req.query.limit, 200)));
+  });
+
+  // A player's history, newest first
+  app.get("/api/players/:playerId/records", (req, res) => {
+    res.json(listPlayerHistory(db, req.params.playerId, parseLimit(req.query.limit, 50)));
+  });
+
+  app.get("/api/leaderboard", (req, res) => {
+    const level = Number(req.query.level);
+    if (!Number.isInteger(level) || level < 1) {
+      res.status(400).json({ error: "level must be a positive integer" });
+      return;
+    }
+    const mode = req.query.mode ?? "EN_TO_ZH";
+    if (!isQuestionMode(mode)) {
+      res.status(400).json({ error: "mode is not a known question mode" });
+      return;
+    }
+    const track = req.query.track ?? DEFAULT_TRACK_ID;
+    if (!isTrackId(track)) {
+      res.status(400).json({ error: "track is not a known curriculum track" });
+      return;
+    }
+    const seed = typeof req.query.seed === "string" && req.query.seed ? req.query.seed : null;
+    res.json(getLeaderboard(db, level, parseLimit(req.query.limit, 20), mode, seed, track));
+  });
+
+  app.post("/api/classes", (req, res) => {
+    res.status(201).json(createClass(db, req.body));
+  });
+
+  app.post("/api/classes/join", (req, res) => {
+    res.json(joinClass(db, req.body));
+  });
+
+  app.get("/api/classes/:classId", (req, res) => {
+    res.json(getClass(db, req.params.classId));
+  });
+
+  app.get("/api/classes/:classId/assignments", (req, res) => {
+    res.json(listAssignments(db, req.params.classId));
+  });
+
+  app.post("/api/classes/:classId/assignments", (req, res) => {
+    requireTeacher(db, req.params.classId, req.get("X-Teacher-Key"));
+    res.status(201).json(createAssignment(db, req.params.classId, req.body));
+  });
+
+  app.get("/api/classes/:classId/report", (req, res) => {
+    requireTeacher(db, req.params.classId, req.get("X-Teacher-Key"));
+    res.json(getClassReport(db, req.params.classId));
+  });
+
+  app.get("/api/classes/:classId/report.csv", (req, res) => {
+    requireTeacher(db, req.params.classId, req.get("X-Teacher-Key"));
+    const report = getClassReport(db, req.params.classId);
+    res.type("text/csv; charset=utf-8");
+    res.attachment(`${report.classInfo.name}-report.csv`);
+    res.send(classReportToCsv(report));
+  });
+
+  app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    if (err instanceof HttpError) {
+      res.status(err.status).json({ error: err.message });
+      return;
+    }
+    console.error("Unhandled server error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  });
+
+  return app;
+}
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { openDatabase, DB } from "./db";
+import { createAssignment, createClass, getClassReport, joinClass } from "./classes";
+import { saveLevelResult } from "./records";
+import type { GameRecord, LevelResult } from "../src/types";
+
+let db: DB;
+let classId: string;
+let assignmentId: number;
+let playerNo = 0;
+
+// A passed level 2 attempt by amy in the class
+function pass(extra: Partial<GameRecord> = {}): void {
+  const result: LevelResult = {
+    record: {
+      playerNo: String(++playerNo),
+      playerId: "amy",
+      startTime: "2026-10-01 10:00",
+      endTime: "2026-10-01 10:01",
+      duration: "1:00",
+      maxLevel: 2,
+      totalWords: 1,
+      correctCount: 1,
+      accuracy: "100.00%",
+      mode: "EN_TO_ZH",
+      score: 100,
+      stars: 3,
+      track: "IELTS",
+      classId,
+      ...extra
+    },
+    durationMs: 60000,
+    answers: [{ word: "abandon", translation: "放弃", selected: "放弃", isCorrect: true }]
+  };
+  saveLevelResult(db, result);
+}
+
+function progress() {
+  const student = getClassReport(db, classId).students.find(s => s.playerId === "amy")!;
+  return student.assignments.find(a => a.assignmentId === assignmentId)!;
+}
+
+beforeEach(() => {
+  db = openDatabase(":memory:");
+  const created = createClass(db, { name: "7A", teacherName: "Ms Li" });
+  classId = created.classId;
+  joinClass(db, { joinCode: created.joinCode, playerId: "amy" });
+  assignmentId = createAssignment(db, classId, { title: "Level 2", levels: [2], dueDate: "2099-12-31" }).id;
+});
+
+describe("class report assignment progress", () => {
+  it("completes a level assignment with a pass on that default-track level", () => {
+    pass();
+    expect(progress()).toMatchObject({ completedLevels: 1, completed: true });
+  });
+
+  it("does not count the same level number on another track", () => {
+    pass({ track: "CET4" });
+    expect(progress()).toMatchObject({ completedLevels: 0, completed: false });
+  });
+
+  it("does not count challenge runs or imported lists", () => {
+    pass({ challengeSeed: "abc123" });
+    pass({ source: "CUSTOM_LIST" });
+    expect(progress()).toMatchObject({ completedLevels: 0, completed: false });
+  });
+});
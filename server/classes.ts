@@ -0,0 +1,270 @@
+import { randomBytes, randomUUID } from "crypto";
+import type { DB } from "./db";
+import { ForbiddenError, NotFoundError, ValidationError } from "./errors";
+import { isNumber, isString } from "./records";
+import { DEFAULT_TRACK_ID } from "../src/game/curriculum";
+import type {
+  Assignment,
+  AssignmentProgress,
+  ClassInfo,
+  ClassReport,
+  MissedWord,
+  RawWord,
+  RecordSource,
+  StudentReport,
+  TeacherClass,
+  TrackId
+} from "../src/types";
+
+interface ClassRow {
+  id: string;
+  name: string;
+  teacher_name: string;
+  join_code: string;
+  teacher_key: string;
+}
+
+interface AssignmentRow {
+  id: number;
+  class_id: string;
+  title: string;
+  levels: string;
+  words: string | null;
+  due_date: string;
+  created_at: string;
+}
+
+// Without 0/O and 1/I so codes can be read out loud in class
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const MISSED_WORDS_PER_STUDENT = 5;
+
+function toClassInfo(row: ClassRow): ClassInfo {
+  return { classId: row.id, name: row.name, teacherName: row.teacher_name, joinCode: row.join_code };
+}
+
+function toAssignment(row: AssignmentRow): Assignment {
+  return {
+    id: row.id,
+    classId: row.class_id,
+    title: row.title,
+    levels: JSON.parse(row.levels),
+    words: row.words ? JSON.parse(row.words) : null,
+    dueDate: row.due_date,
+    createdAt: row.created_at
+  };
+}
+
+function generateJoinCode(db: DB): string {
+  const exists = db.prepare("SELECT 1 FROM classes WHERE join_code = ?");
+  for (;;) {
+    const code = Array.from(randomBytes(6), b => JOIN_CODE_ALPHABET[b % JOIN_CODE_ALPHABET.length]).join("");
+    if (!exists.get(code)) return code;
+  }
+}
+
+function getClassRow(db: DB, classId: string): ClassRow {
+  const row = db.prepare("SELECT * FROM classes WHERE id = ?").get(classId) as ClassRow | undefined;
+  if (!row) throw new NotFoundError("Class not found");
+  return row;
+}
+
+// The teacher key is handed out once, when the class is created
+export function requireTeacher(db: DB, classId: string, teacherKey: unknown): ClassRow {
+  const row = getClassRow(db, classId);
+  if (!isString(teacherKey) || teacherKey !== row.teacher_key) {
+    throw new ForbiddenError("A valid teacher key is required");
+  }
+  return row;
+}
+
+export function createClass(db: DB, body: any): TeacherClass {
+  const name = isString(body?.name) ? body.name.trim() : "";
+  const teacherName = isString(body?.teacherName) ? body.teacherName.trim() : "";
+  if (!name || !teacherName) throw new ValidationError("name and teacherName are required");
+
+  const row: ClassRow = {
+    id: randomUUID(),
+    name,
+    teacher_name: teacherName,
+    join_code: generateJoinCode(db),
+    teacher_key: randomBytes(18).toString("base64url")
+  };
+  db.prepare(`
+    INSERT INTO classes (id, name, teacher_name, join_code, teacher_key)
+    VALUES (@id, @name, @teacher_name, @join_code, @teacher_key)
+  `).run(row);
+
+  return { ...toClassInfo(row), teacherKey: row.teacher_key };
+}
+
+export function getClass(db: DB, classId: string): ClassInfo {
+  return toClassInfo(getClassRow(db, classId));
+}
+
+export function joinClass(db: DB, body: any): ClassInfo {
+  const joinCode = isString(body?.joinCode) ? body.joinCode.trim().toUpperCase() : "";
+  const playerId = isString(body?.playerId) ? body.playerId.trim() : "";
+  if (!joinCode || !playerId) throw new ValidationError("joinCode and playerId are required");
+
+  const row = db.prepare("SELECT * FROM classes WHERE join_code = ?").get(joinCode) as ClassRow | undefined;
+  if (!row) throw new NotFoundError("No class with this join code");
+
+  db.transaction(() => {
+    db.prepare("INSERT OR IGNORE INTO players (player_id) VALUES (?)").run(playerId);
+    db.prepare(`
+      INSERT OR IGNORE INTO class_members (class_id, player_ref)
+      SELECT ?, id FROM players WHERE player_id = ?
+    `).run(row.id, playerId);
+  })();
+
+  return toClassInfo(row);
+}
+
+function validateWords(value: unknown): RawWord[] | null {
+  if (value === undefined || value === null) return null;
+  if (!Array.isArray(value) || value.length === 0) throw new ValidationError("words must be a non-empty array");
+  return value.map((w, i) => {
+    if (!isString(w?.word) || !isString(w?.translation) || !w.word.trim() || !w.translation.trim()) {
+      throw new ValidationError(`words[${i}] is malformed`);
+    }
+    return { word: w.word.trim(), translation: w.translation.trim() };
+  });
+}
+
+export function createAssignment(db: DB, classId: string, body: any): Assignment {
+  const title = isString(body?.title) ? body.title.trim() : "";
+  if (!title) throw new ValidationError("title is required");
+
+  const levels = Array.isArray(body?.levels) ? body.levels : [];
+  if (!levels.every((l: unknown) => isNumber(l) && Number.isInteger(l) && l >= 1)) {
+    throw new ValidationError("levels must be positive integers");
+  }
+  const words = validateWords(body?.words);
+  if (levels.length === 0 && !words) throw new ValidationError("An assignment needs levels or a word list");
+
+  const dueDate = isString(body?.dueDate) ? body.dueDate : "";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) throw new ValidationError("dueDate must be YYYY-MM-DD");
+
+  const result = db.prepare(`
+    INSERT INTO assignments (class_id, title, levels, words, due_date) VALUES (?, ?, ?, ?, ?)
+  `).run(classId, title, JSON.stringify([...new Set(levels)].sort((a, b) => (a as number) - (b as number))), words ? JSON.stringify(words) : null, dueDate);
+
+  return toAssignment(db.prepare("SELECT * FROM assignments WHERE id = ?").get(result.lastInsertRowid) as AssignmentRow);
+}
+
+export function listAssignments(db: DB, classId: string): Assignment[] {
+  getClassRow(db, classId);
+  const rows = db.prepare("SELECT * FROM assignments WHERE class_id = ? ORDER BY due_date, id").all(classId) as AssignmentRow[];
+  return rows.map(toAssignment);
+}
+
+interface MemberAttemptRow {
+  player_id: string;
+  level: number;
+  accuracy: number;
+  stars: number;
+  assignment_id: number | null;
+  source: RecordSource;
+  track: TrackId;
+  challenge_seed: string | null;
+  room_code: string | null;
+  created_at: string;
+}
+
+// Assignment levels are numbered in the default track. Challenge links and rooms can
+// open any level, so only a plain run of that very level completes it.
+function completesLevel(attempt: MemberAttemptRow): boolean {
+  return attempt.source === "LEVEL"
+    && attempt.track === DEFAULT_TRACK_ID
+    && attempt.challenge_seed === null
+    && attempt.room_code === null;
+}
+
+// Word-list assignments count as one unit of work; level assignments count
+// each level passed (stars > 0) in this class on or before the due date.
+function assignmentProgress(assignment: Assignment, attempts: MemberAttemptRow[]): AssignmentProgress {
+  const inTime = attempts.filter(a => a.stars > 0 && a.created_at.slice(0, 10) <= assignment.dueDate);
+  const passedLevels = new Set(inTime
+    .filter(a => completesLevel(a) && (a.assignment_id === null || a.assignment_id === assignment.id))
+    .map(a => a.level));
+
+  const levelsDone = assignment.levels.filter(l => passedLevels.has(l)).length;
+  const wordsDone = assignment.words && inTime.some(a => a.source === "WORD_LIST" && a.assignment_id === assignment.id) ? 1 : 0;
+  const totalLevels = assignment.levels.length + (assignment.words ? 1 : 0);
+  const completedLevels = levelsDone + wordsDone;
+
+  return { assignmentId: assignment.id, completedLevels, totalLevels, completed: completedLevels >= totalLevels };
+}
+
+export function getClassReport(db: DB, classId: string): ClassReport {
+  const classInfo = getClass(db, classId);
+  const assignments = listAssignments(db, classId);
+
+  const members = db.prepare(`
+    SELECT p.id AS player_ref, p.player_id, m.joined_at
+    FROM class_members m JOIN players p ON p.id = m.player_ref
+    WHERE m.class_id = ?
+    ORDER BY p.player_id
+  `).all(classId) as { player_ref: number; player_id: string; joined_at: string }[];
+
+  const attempts = db.prepare(`
+    SELECT p.player_id, a.level, a.accuracy, a.stars, a.assignment_id, a.source, a.track, a.challenge_seed, a.room_code, a.created_at
+    FROM level_attempts a JOIN players p ON p.id = a.player_ref
+    WHERE a.class_id = ?
+  `).all(classId) as MemberAttemptRow[];
+
+  const misses = db.prepare(`
+    SELECT p.player_id, w.word, w.translation, COUNT(*) AS misses
+    FROM word_answers w
+    JOIN level_attempts a ON a.id = w.attempt_id
+    JOIN players p ON p.id = a.player_ref
+    WHERE a.class_id = ? AND w.is_correct = 0
+    GROUP BY p.player_id, lower(w.word)
+    ORDER BY misses DESC, w.word
+  `).all(classId) as (MissedWord & { player_id: string })[];
+
+  const students: StudentReport[] = members.map(member => {
+    const own = attempts.filter(a => a.player_id === member.player_id);
+    const missedWords = misses
+      .filter(m => m.player_id === member.player_id)
+      .slice(0, MISSED_WORDS_PER_STUDENT)
+      .map(({ word, translation, misses }) => ({ word, translation, misses }));
+
+    return {
+      playerId: member.player_id,
+      joinedAt: member.joined_at,
+      attempts: own.length,
+      accuracy: own.length > 0 ? own.reduce((sum, a) => sum + a.accuracy, 0) / own.length : null,
+      assignments: assignments.map(assignment => assignmentProgress(assignment, own)),
+      missedWords
+    };
+  });
+
+  return { classInfo, assignments, students };
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function classReportToCsv(report: ClassReport): string {
+  const header = [
+    "学生",
+    "加入时间",
+    "闯关次数",
+    "平均正确率",
+    ...report.assignments.map(a => `${a.title} (截止 ${a.dueDate})`),
+    "最常错的单词"
+  ];
+  const rows = report.students.map(s => [
+    s.playerId,
+    s.joinedAt,
+    s.attempts,
+    s.accuracy === null ? "" : `${s.accuracy.toFixed(1)}%`,
+    ...s.assignments.map(p => (p.completed ? "已完成" : `${p.completedLevels}/${p.totalLevels}`)),
+    s.missedWords.map(w => `${w.word}(${w.misses})`).join(" ")
+  ]);
+  // BOM so Excel opens the Chinese headers as UTF-8
+  return "﻿" + [header, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
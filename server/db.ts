@@ -0,0 +1,118 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+
+export type DB = Database.Database;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS players (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  player_id TEXT NOT NULL UNIQUE,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS classes (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  teacher_name TEXT NOT NULL,
+  join_code TEXT NOT NULL UNIQUE,
+  teacher_key TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS class_members (
+  class_id TEXT NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  player_ref INTEGER NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  joined_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (class_id, player_ref)
+);
+
+-- levels is a JSON array of level numbers, words an optional JSON array of {word, translation}
+CREATE TABLE IF NOT EXISTS assignments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  class_id TEXT NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  levels TEXT NOT NULL DEFAULT '[]',
+  words TEXT,
+  due_date TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS level_attempts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  player_ref INTEGER NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  player_no TEXT NOT NULL,
+  level INTEGER NOT NULL,
+  start_time TEXT NOT NULL,
+  end_time TEXT NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  total_words INTEGER NOT NULL,
+  correct_count INTEGER NOT NULL,
+  accuracy REAL NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'EN_TO_ZH',
+  score INTEGER NOT NULL DEFAULT 0,
+  stars INTEGER NOT NULL DEFAULT 0,
+  class_id TEXT REFERENCES classes(id) ON DELETE SET NULL,
+  assignment_id INTEGER REFERENCES assignments(id) ON DELETE SET NULL,
+  challenge_seed TEXT,
+  track TEXT NOT NULL DEFAULT 'IELTS',
+  room_code TEXT,
+  source TEXT NOT NULL DEFAULT 'LEVEL',
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (player_ref, player_no)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attempts_level ON level_attempts(level, accuracy DESC, duration_ms ASC);
+
+CREATE TABLE IF NOT EXISTS word_answers (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  attempt_id INTEGER NOT NULL REFERENCES level_attempts(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  word TEXT NOT NULL,
+  translation TEXT NOT NULL,
+  selected TEXT NOT NULL,
+  is_correct INTEGER NOT NULL
+);
+`;
+
+// Columns added after the first release, for databases created before them.
+// backfill runs once, right after the column is added.
+const COLUMN_MIGRATIONS: { table: string; column: string; definition: string; backfill?: string }[] = [
+  { table: "level_attempts", column: "mode", definition: "TEXT NOT NULL DEFAULT 'EN_TO_ZH'" },
+  { table: "level_attempts", column: "score", definition: "INTEGER NOT NULL DEFAULT 0" },
+  { table: "level_attempts", column: "stars", definition: "INTEGER NOT NULL DEFAULT 0" },
+  { table: "level_attempts", column: "class_id", definition: "TEXT REFERENCES classes(id) ON DELETE SET NULL" },
+  { table: "level_attempts", column: "assignment_id", definition: "INTEGER REFERENCES assignments(id) ON DELETE SET NULL" },
+  { table: "level_attempts", column: "challenge_seed", definition: "TEXT" },
+  { table: "level_attempts", column: "track", definition: "TEXT NOT NULL DEFAULT 'IELTS'" },
+  { table: "level_attempts", column: "room_code", definition: "TEXT" },
+  {
+    table: "level_attempts",
+    column: "source",
+    definition: "TEXT NOT NULL DEFAULT 'LEVEL'",
+    // Word-list runs used to be saved as plain level 1 attempts of their assignment
+    backfill: "UPDATE level_attempts SET source = 'WORD_LIST' WHERE assignment_id IN (SELECT id FROM assignments WHERE words IS NOT NULL)"
+  }
+];
+
+function migrate(db: Database.Database) {
+  for (const { table, column, definition, backfill } of COLUMN_MIGRATIONS) {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some(c => c.name === column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      if (backfill) db.exec(backfill);
+    }
+  }
+}
+
+export function openDatabase(file: string): DB {
+  if (file !== ":memory:") {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+  const db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  db.exec(SCHEMA);
+  migrate(db);
+  return db;
+}
@@ -0,0 +1,36 @@
+// Errors thrown by route handlers; the error middleware in app.ts maps them to responses
+
+export class HttpError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export class ValidationError extends HttpError {
+  constructor(message: string) {
+    super(message, 400);
+    this.name = "ValidationError";
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message: string) {
+    super(message, 403);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string) {
+    super(message, 409);
+    this.name = "ConflictError";
+  }
+}
@@ -0,0 +1,16 @@
+import "dotenv/config";
+import { createApp } from "./app";
+import { openDatabase } from "./db";
+import { ROOM_PATH, attachRooms } from "./rooms";
+
+const PORT = Number(process.env.API_PORT) || 3001;
+const DB_PATH = process.env.DB_PATH || "data/game.db";
+
+const db = openDatabase(DB_PATH);
+const app = createApp(db);
+
+const server = app.listen(PORT, "0.0.0.0", () => {
+  console.log(`Game server listening on http://localhost:${PORT} (db: ${DB_PATH})`);
+  console.log(`Live rooms on ws://<this machine's LAN address>:${PORT}${ROOM_PATH}`);
+});
+attachRooms(server, db);
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { openDatabase, DB } from "./db";
+import { createAssignment, createClass, joinClass } from "./classes";
+import { getLeaderboard, listPlayerHistory, saveLevelResult } from "./records";
+import type { GameRecord, LevelResult } from "../src/types";
+
+function result(playerId: string, playerNo: string, extra: Partial<GameRecord> = {}): LevelResult {
+  return {
+    record: {
+      playerNo,
+      playerId,
+      startTime: "2026-10-01 10:00",
+      endTime: "2026-10-01 10:01",
+      duration: "1:00",
+      maxLevel: 1,
+      totalWords: 2,
+      correctCount: 2,
+      accuracy: "100.00%",
+      mode: "EN_TO_ZH",
+      score: 300,
+      stars: 3,
+      track: "IELTS",
+      ...extra
+    },
+    durationMs: 60000,
+    answers: [
+      { word: "abandon", translation: "放弃", selected: "放弃", isCorrect: true },
+      { word: "benefit", translation: "好处", selected: "好处", isCorrect: true }
+    ]
+  };
+}
+
+let db: DB;
+
+beforeEach(() => {
+  db = openDatabase(":memory:");
+});
+
+describe("saveLevelResult class fields", () => {
+  it("keeps the class and assignment of a class member", () => {
+    const cls = createClass(db, { name: "7A", teacherName: "Ms Li" });
+    joinClass(db, { joinCode: cls.joinCode, playerId: "amy" });
+    const assignment = createAssignment(db, cls.classId, { title: "Week 1", levels: [1], dueDate: "2026-12-31" });
+
+    saveLevelResult(db, result("amy", "1", { classId: cls.classId, assignmentId: assignment.id }));
+    expect(listPlayerHistory(db, "amy")[0].record).toMatchObject({ classId: cls.classId, assignmentId: assignment.id });
+  });
+
+  it("saves a record with a stale class id as a plain attempt instead of failing", () => {
+    expect(() => saveLevelResult(db, result("amy", "1", { classId: "deleted-class", assignmentId: 99 }))).not.toThrow();
+    const [saved] = listPlayerHistory(db, "amy");
+    expect(saved.record.classId).toBeUndefined();
+    expect(saved.record.assignmentId).toBeUndefined();
+  });
+
+  it("does not write into a class the player has not joined", () => {
+    const cls = createClass(db, { name: "7A", teacherName: "Ms Li" });
+    saveLevelResult(db, result("mallory", "1", { classId: cls.classId }));
+    expect(listPlayerHistory(db, "mallory")[0].record.classId).toBeUndefined();
+  });
+
+  it("drops an assignment that belongs to another class", () => {
+    const mine = createClass(db, { name: "7A", teacherName: "Ms Li" });
+    const other = createClass(db, { name: "7B", teacherName: "Mr Wu" });
+    joinClass(db, { joinCode: mine.joinCode, playerId: "amy" });
+    const foreign = createAssignment(db, other.classId, { title: "Other", levels: [1], dueDate: "2026-12-31" });
+
+    saveLevelResult(db, result("amy", "1", { classId: mine.classId, assignmentId: foreign.id }));
+    expect(listPlayerHistory(db, "amy")[0].record).toMatchObject({ classId: mine.classId });
+    expect(listPlayerHistory(db, "amy")[0].record.assignmentId).toBeUndefined();
+  });
+});
+
+describe("word-list and imported-list runs", () => {
+  it("are saved with their source and left off the level leaderboard", () => {
+    saveLevelResult(db, result("amy", "1"));
+    saveLevelResult(db, result("bob", "2", { source: "WORD_LIST", score: 900 }));
+    saveLevelResult(db, result("cat", "3", { source: "CUSTOM_LIST", score: 900 }));
+
+    expect(listPlayerHistory(db, "bob")[0].record.source).toBe("WORD_LIST");
+    expect(getLeaderboard(db, 1).map(e => e.playerId)).toEqual(["amy"]);
+  });
+
+  it("default to a plain level attempt for older clients", () => {
+    saveLevelResult(db, result("amy", "1"));
+    expect(listPlayerHistory(db, "amy")[0].record.source).toBe("LEVEL");
+  });
+});
@@ -0,0 +1,294 @@
+import type { DB } from "./db";
+import { ValidationError } from "./errors";
+import { formatDuration } from "../src/utils";
+import { DEFAULT_TRACK_ID, isTrackId } from "../src/game/curriculum";
+import type { AnswerDetail, GameRecord, LeaderboardEntry, LevelResult, QuestionMode, RecordSource, StoredLevelResult, TrackId } from "../src/types";
+
+const QUESTION_MODES: QuestionMode[] = ["EN_TO_ZH", "ZH_TO_EN", "SPELLING", "LISTENING"];
+const RECORD_SOURCES: RecordSource[] = ["LEVEL", "WORD_LIST", "CUSTOM_LIST"];
+
+export function isQuestionMode(value: unknown): value is QuestionMode {
+  return QUESTION_MODES.includes(value as QuestionMode);
+}
+
+interface AttemptRow {
+  id: number;
+  player_id: string;
+  player_no: string;
+  level: number;
+  start_time: string;
+  end_time: string;
+  duration_ms: number;
+  total_words: number;
+  correct_count: number;
+  accuracy: number;
+  mode: QuestionMode;
+  score: number;
+  stars: number;
+  class_id: string | null;
+  assignment_id: number | null;
+  challenge_seed: string | null;
+  track: TrackId;
+  room_code: string | null;
+  source: RecordSource;
+  created_at: string;
+}
+
+interface AnswerRow {
+  attempt_id: number;
+  word: string;
+  translation: string;
+  selected: string;
+  is_correct: number;
+}
+
+export function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+export function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export function validateLevelResult(body: any): LevelResult {
+  const record = body?.record;
+  if (!record || typeof record !== "object") throw new ValidationError("record is required");
+  if (!isString(record.playerId) || !record.playerId.trim()) throw new ValidationError("record.playerId is required");
+  if (!isString(record.playerNo)) throw new ValidationError("record.playerNo is required");
+  if (!isNumber(record.maxLevel) || record.maxLevel < 1) throw new ValidationError("record.maxLevel must be a positive number");
+  if (!isNumber(record.totalWords) || !isNumber(record.correctCount)) {
+    throw new ValidationError("record.totalWords and record.correctCount must be numbers");
+  }
+  // Records from before question modes existed are plain 英译中
+  if (record.mode === undefined) record.mode = "EN_TO_ZH";
+  if (!isQuestionMode(record.mode)) throw new ValidationError("record.mode is not a known question mode");
+  if (record.score === undefined) record.score = 0;
+  if (record.stars === undefined) record.stars = 0;
+  if (!isNumber(record.score) || !isNumber(record.stars) || record.stars < 0 || record.stars > 3) {
+    throw new ValidationError("record.score must be a number and record.stars between 0 and 3");
+  }
+  if (record.classId !== undefined && record.classId !== null && !isString(record.classId)) {
+    throw new ValidationError("record.classId must be a string");
+  }
+  if (record.assignmentId !== undefined && record.assignmentId !== null && !isNumber(record.assignmentId)) {
+    throw new ValidationError("record.assignmentId must be a number");
+  }
+  if (record.challengeSeed !== undefined && record.challengeSeed !== null && !isString(record.challengeSeed)) {
+    throw new ValidationError("record.challengeSeed must be a string");
+  }
+  if (record.roomCode !== undefined && record.roomCode !== null && !isString(record.roomCode)) {
+    throw new ValidationError("record.roomCode must be a string");
+  }
+  // Records from before curriculum tracks existed are IELTS
+  if (record.track === undefined) record.track = DEFAULT_TRACK_ID;
+  if (!isTrackId(record.track)) throw new ValidationError("record.track is not a known track");
+  if (record.source === undefined) record.source = "LEVEL";
+  if (!RECORD_SOURCES.includes(record.source)) throw new ValidationError("record.source must be LEVEL, WORD_LIST or CUSTOM_LIST");
+  if (!isNumber(body.durationMs) || body.durationMs < 0) throw new ValidationError("durationMs must be a non-negative number");
+  if (!Array.isArray(body.answers)) throw new ValidationError("answers must be an array");
+
+  const answers: AnswerDetail[] = body.answers.map((a: any, i: number) => {
+    if (!isString(a?.word) || !isString(a?.translation) || !isString(a?.selected) || typeof a?.isCorrect !== "boolean") {
+      throw new ValidationError(`answers[${i}] is malformed`);
+    }
+    return { word: a.word, translation: a.translation, selected: a.selected, isCorrect: a.isCorrect };
+  });
+
+  return { record: record as GameRecord, durationMs: body.durationMs, answers };
+}
+
+// GameRecord.accuracy is a display string like "92.00%"
+function accuracyOf(record: GameRecord): number {
+  if (record.totalWords === 0) return 0;
+  return (record.correctCount / record.totalWords) * 100;
+}
+
+function toRecord(row: AttemptRow): GameRecord {
+  return {
+    playerNo: row.player_no,
+    playerId: row.player_id,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    duration: formatDuration(row.duration_ms),
+    maxLevel: row.level,
+    totalWords: row.total_words,
+    correctCount: row.correct_count,
+    accuracy: `${row.accuracy.toFixed(2)}%`,
+    mode: row.mode,
+    score: row.score,
+    stars: row.stars,
+    track: row.track,
+    source: row.source,
+    ...(row.class_id ? { classId: row.class_id } : {}),
+    ...(row.assignment_id !== null ? { assignmentId: row.assignment_id } : {}),
+    ...(row.challenge_seed ? { challengeSeed: row.challenge_seed } : {}),
+    ...(row.room_code ? { roomCode: row.room_code } : {})
+  };
+}
+
+// A record only counts for a class the player has joined, and for an assignment of that
+// class. Anything else (a class deleted since, an id from another class, a forged id)
+// is dropped so the attempt is still saved as a plain one, instead of failing the
+// foreign key on every retry or landing in someone else's class.
+function classFields(db: DB, playerRef: number, record: GameRecord): { classId: string | null; assignmentId: number | null } {
+  const classId = record.classId ?? null;
+  const isMember = classId !== null && db
+    .prepare("SELECT 1 FROM class_members WHERE class_id = ? AND player_ref = ?")
+    .get(classId, playerRef) !== undefined;
+  if (!isMember) {
+    if (classId !== null || record.assignmentId != null) {
+      console.warn(`Dropping class fields of a record by player ${playerRef}: not a member of class ${classId}`);
+    }
+    return { classId: null, assignmentId: null };
+  }
+
+  const assignmentId = record.assignmentId ?? null;
+  const inClass = assignmentId !== null && db
+    .prepare("SELECT 1 FROM assignments WHERE id = ? AND class_id = ?")
+    .get(assignmentId, classId) !== undefined;
+  if (assignmentId !== null && !inClass) console.warn(`Dropping unknown assignment ${assignmentId} of class ${classId}`);
+  return { classId, assignmentId: inClass ? assignmentId : null };
+}
+
+// Saving is idempotent per (player, playerNo) so that client retries after a
+// lost response do not create duplicate attempts.
+export function saveLevelResult(db: DB, result: LevelResult): number {
+  const { record, durationMs, answers } = result;
+
+  const save = db.transaction(() => {
+    db.prepare("INSERT OR IGNORE INTO players (player_id) VALUES (?)").run(record.playerId);
+    const player = db.prepare("SELECT id FROM players WHERE player_id = ?").get(record.playerId) as { id: number };
+
+    const existing = db
+      .prepare("SELECT id FROM level_attempts WHERE player_ref = ? AND player_no = ?")
+      .get(player.id, record.playerNo) as { id: number } | undefined;
+    if (existing) return existing.id;
+
+    const { classId, assignmentId } = classFields(db, player.id, record);
+
+    const attempt = db.prepare(`
+      INSERT INTO level_attempts
+        (player_ref, player_no, level, start_time, end_time, duration_ms, total_words, correct_count, accuracy, mode, score, stars, class_id, assignment_id, challenge_seed, track, room_code, source)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      player.id,
+      record.playerNo,
+      record.maxLevel,
+      record.startTime,
+      record.endTime,
+      Math.round(durationMs),
+      record.totalWords,
+      record.correctCount,
+      accuracyOf(record),
+      record.mode,
+      Math.round(record.score),
+      record.stars,
+      classId,
+      assignmentId,
+      record.challengeSeed ?? null,
+      record.track ?? DEFAULT_TRACK_ID,
+      record.roomCode ?? null,
+      record.source ?? "LEVEL"
+    );
+    const attemptId = Number(attempt.lastInsertRowid);
+
+    const insertAnswer = db.prepare(`
+      INSERT INTO word_answers (attempt_id, position, word, translation, selected, is_correct)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    answers.forEach((a, i) => insertAnswer.run(attemptId, i, a.word, a.translation, a.selected, a.isCorrect ? 1 : 0));
+
+    return attemptId;
+  });
+
+  return save();
+}
+
+const ATTEMPT_COLUMNS = `
+  a.id, p.player_id, a.player_no, a.level, a.start_time, a.end_time, a.duration_ms,
+  a.total_words, a.correct_count, a.accuracy, a.mode, a.score, a.stars, a.class_id, a.assignment_id, a.challenge_seed, a.track, a.room_code, a.source, a.created_at
+`;
+
+export function listPlayerHistory(db: DB, playerId: string, limit = 50): StoredLevelResult[] {
+  const rows = db.prepare(`
+    SELECT ${ATTEMPT_COLUMNS}
+    FROM level_attempts a JOIN players p ON p.id = a.player_ref
+    WHERE p.player_id = ?
+    ORDER BY a.id DESC
+    LIMIT ?
+  `).all(playerId, limit) as AttemptRow[];
+  return withAnswers(db, rows);
+}
+
+// All records saved for a class, newest first
+export function listClassRecords(db: DB, classId: string, limit = 200): StoredLevelResult[] {
+  const rows = db.prepare(`
+    SELECT ${ATTEMPT_COLUMNS}
+    FROM level_attempts a JOIN players p ON p.id = a.player_ref
+    WHERE a.class_id = ?
+    ORDER BY a.id DESC
+    LIMIT ?
+  `).all(classId, limit) as AttemptRow[];
+  return withAnswers(db, rows);
+}
+
+function withAnswers(db: DB, rows: AttemptRow[]): StoredLevelResult[] {
+  if (rows.length === 0) return [];
+
+  const answerRows = db.prepare(`
+    SELECT attempt_id, word, translation, selected, is_correct
+    FROM word_answers
+    WHERE attempt_id IN (${rows.map(() => "?").join(",")})
+    ORDER BY attempt_id, position
+  `).all(...rows.map(r => r.id)) as AnswerRow[];
+
+  const answersByAttempt = new Map<number, AnswerDetail[]>();
+  for (const a of answerRows) {
+    const list = answersByAttempt.get(a.attempt_id) ?? [];
+    list.push({ word: a.word, translation: a.translation, selected: a.selected, isCorrect: a.is_correct === 1 });
+    answersByAttempt.set(a.attempt_id, list);
+  }
+
+  return rows.map(row => ({
+    id: row.id,
+    createdAt: row.created_at,
+    record: toRecord(row),
+    durationMs: row.duration_ms,
+    answers: answersByAttempt.get(row.id) ?? []
+  }));
+}
+
+// Best attempt per player on a level, ranked by accuracy then time.
+// Modes and tracks differ in difficulty, so a leaderboard only ever compares one of each.
+// With a challenge seed only attempts at that exact challenge are ranked.
+// Word-list and imported-list runs are not the level itself, and room games are ranked
+// within the room, so none of them is ranked here.
+export function getLeaderboard(
+  db: DB,
+  level: number,
+  limit = 20,
+  mode: QuestionMode = "EN_TO_ZH",
+  challengeSeed: string | null = null,
+  track: TrackId = DEFAULT_TRACK_ID
+): LeaderboardEntry[] {
+  const rows = db.prepare(`
+    SELECT player_id, level, accuracy, duration_ms, end_time FROM (
+      SELECT p.player_id, a.level, a.accuracy, a.duration_ms, a.end_time,
+        ROW_NUMBER() OVER (PARTITION BY a.player_ref ORDER BY a.accuracy DESC, a.duration_ms ASC) AS rn
+      FROM level_attempts a JOIN players p ON p.id = a.player_ref
+      WHERE a.level = ? AND a.mode = ? AND a.track = ? AND a.source = 'LEVEL' AND a.room_code IS NULL AND (? IS NULL OR a.challenge_seed = ?)
+    )
+    WHERE rn = 1
+    ORDER BY accuracy DESC, duration_ms ASC
+    LIMIT ?
+  `).all(level, mode, track, challengeSeed, challengeSeed, limit) as Pick<AttemptRow, "player_id" | "level" | "accuracy" | "duration_ms" | "end_time">[];
+
+  return rows.map((row, i) => ({
+    rank: i + 1,
+    playerId: row.player_id,
+    level: row.level,
+    accuracy: row.accuracy,
+    durationMs: row.duration_ms,
+    endTime: row.end_time
+  }));
+}
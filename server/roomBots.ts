@@ -0,0 +1,159 @@
+import { readFileSync } from "fs";
+import { parseArgs } from "util";
+import { WebSocket } from "ws";
+import { ROOM_PATH } from "./rooms";
+import { DEFAULT_TRACK_ID } from "../src/game/curriculum";
+import { wordId } from "../src/game/wordId";
+import { shuffle } from "../src/game/random";
+import { pickLocalDistractors } from "../src/services/localDistractors";
+import { parseWordList, detectFormat } from "../src/services/wordListImport";
+import type { RawWord, RoomClientMessage, RoomServerMessage, RoomStanding, Word } from "../src/types";
+
+// Headless players for trying out live rooms without a room full of phones.
+//
+//   npm run room:bots -- --players 5                 host a room with sample words and fill it with bots
+//   npm run room:bots -- --code 4821 --players 3     add bots to a room opened in the browser
+//
+// Bots that host know the answers and get them right with --accuracy; bots joining someone
+// else's room never see the answer before the reveal, so they guess. Rooms the bots host
+// are not recorded, so they stay out of history and the leaderboards.
+
+const SAMPLE_WORDS: RawWord[] = [
+  { word: "abandon", translation: "放弃" },
+  { word: "benefit", translation: "好处" },
+  { word: "capacity", translation: "容量" },
+  { word: "decline", translation: "下降" },
+  { word: "evaluate", translation: "评估" },
+  { word: "frequent", translation: "频繁的" },
+  { word: "generate", translation: "产生" },
+  { word: "hypothesis", translation: "假设" }
+];
+
+const { values } = parseArgs({
+  options: {
+    url: { type: "string", default: `ws://localhost:${process.env.API_PORT || 3001}${ROOM_PATH}` },
+    code: { type: "string" },
+    players: { type: "string", default: "4" },
+    accuracy: { type: "string", default: "0.7" },
+    words: { type: "string" },
+    "question-ms": { type: "string", default: "8000" }
+  }
+});
+
+const playerCount = Math.max(1, Number(values.players) || 4);
+const accuracy = Math.min(1, Math.max(0, Number(values.accuracy)));
+const questionTimeMs = Number(values["question-ms"]) || 8000;
+
+function loadWords(): RawWord[] {
+  if (!values.words) return SAMPLE_WORDS;
+  const text = readFileSync(values.words, "utf8");
+  const { words } = parseWordList(text, detectFormat(text, values.words));
+  if (words.length === 0) throw new Error(`No words found in ${values.words}`);
+  return words;
+}
+
+function toQuestions(raw: RawWord[]): Word[] {
+  return raw.map(w => ({
+    id: wordId(w),
+    word: w.word,
+    translation: w.translation,
+    mode: "EN_TO_ZH",
+    options: shuffle([...pickLocalDistractors(w, raw, 3), w.translation]),
+    correctAnswer: w.translation
+  }));
+}
+
+function connect(onMessage: (socket: WebSocket, message: RoomServerMessage) => void): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(values.url!);
+    socket.on("open", () => resolve(socket));
+    socket.on("error", reject);
+    socket.on("message", data => onMessage(socket, JSON.parse(data.toString())));
+  });
+}
+
+function send(socket: WebSocket, message: RoomClientMessage) {
+  socket.send(JSON.stringify(message));
+}
+
+function printRanking(title: string, ranking: RoomStanding[]) {
+  console.log(`\n${title}`);
+  console.table(ranking.map(s => ({ rank: s.rank, player: s.playerId, score: s.score, correct: s.correctCount, last: `+${s.lastPoints}` })));
+}
+
+// answers holds the correct answer of each question, by index, when the bots host the room
+async function addBot(name: string, code: string, answers: string[] | null): Promise<WebSocket> {
+  const socket = await connect((socket, message) => {
+    if (message.type === "question") {
+      const { question, index, timeLimitMs } = message;
+      const known = answers?.[index];
+      const wrong = question.options.filter(o => o !== known);
+      const selected = known && Math.random() < accuracy
+        ? known
+        : wrong[Math.floor(Math.random() * wrong.length)] ?? "";
+      // Somewhere in the first 80% of the countdown
+      const delay = Math.random() * timeLimitMs * 0.8;
+      setTimeout(() => send(socket, { type: "answer", index, selected }), delay);
+    } else if (message.type === "error") {
+      console.error(`${name}: ${message.message}`);
+    } else if (message.type === "finished" || message.type === "closed") {
+      socket.close();
+    }
+  });
+  send(socket, { type: "join", code, playerId: name });
+  return socket;
+}
+
+async function main() {
+  const names = Array.from({ length: playerCount }, (_, i) => `bot-${i + 1}`);
+
+  if (values.code) {
+    const bots = await Promise.all(names.map(name => addBot(name, values.code!, null)));
+    console.log(`${bots.length} bots joined room ${values.code}; waiting for the host to start`);
+    await Promise.all(bots.map(bot => new Promise(resolve => bot.on("close", resolve))));
+    return;
+  }
+
+  const words = toQuestions(loadWords());
+  const answers = words.map(w => w.correctAnswer);
+  let joined = false;
+  const host = await connect(async (host, message) => {
+    switch (message.type) {
+      case "room":
+        if (joined || message.phase !== "LOBBY") return;
+        joined = true;
+        console.log(`Room ${message.code} open, adding ${playerCount} bots`);
+        await Promise.all(names.map(name => addBot(name, message.code, answers)));
+        // Give the joins a moment to arrive before starting
+        setTimeout(() => send(host, { type: "start" }), 500);
+        return;
+      case "question":
+        console.log(`\nQ${message.index + 1}/${message.total}: ${message.question.prompt}`);
+        return;
+      case "reveal":
+        printRanking(`Answer: ${message.correctAnswer}`, message.ranking);
+        return;
+      case "finished":
+        printRanking("Final ranking", message.ranking);
+        host.close();
+        return;
+      case "error":
+        console.error(`host: ${message.message}`);
+        host.close();
+        return;
+    }
+  });
+  send(host, {
+    type: "create",
+    hostId: "bot-host",
+    settings: { track: DEFAULT_TRACK_ID, level: 1, mode: "EN_TO_ZH", questionTimeMs },
+    words,
+    record: false
+  });
+  await new Promise(resolve => host.on("close", resolve));
+}
+
+main().catch(error => {
+  console.error("Room bots failed:", error);
+  process.exit(1);
+});
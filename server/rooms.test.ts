@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+import { openDatabase, DB } from "./db";
+import { RoomManager } from "./rooms";
+import { getLeaderboard, listPlayerHistory } from "./records";
+import type { RoomClientMessage, RoomServerMessage, Word } from "../src/types";
+
+// Stands in for a connected socket and keeps what the room sent it
+function fakeSocket() {
+  const received: RoomServerMessage[] = [];
+  const socket = {
+    readyState: WebSocket.OPEN,
+    send: (data: string) => received.push(JSON.parse(data))
+  } as unknown as WebSocket;
+  return { socket, received };
+}
+
+const WORDS: Word[] = [
+  { id: "abandon", word: "abandon", translation: "放弃", mode: "EN_TO_ZH", options: ["好处", "放弃", "容量", "下降"], correctAnswer: "放弃" },
+  { id: "benefit", word: "benefit", translation: "好处", mode: "EN_TO_ZH", options: ["好处", "放弃", "容量", "下降"], correctAnswer: "好处" }
+];
+
+let db: DB;
+let rooms: RoomManager;
+
+function send(socket: WebSocket, message: RoomClientMessage) {
+  rooms.handleMessage(socket, JSON.stringify(message));
+}
+
+// A room with amy (and whoever else is named) in it, started
+function startRoom(words: Word[] = WORDS, record?: boolean, others: string[] = []) {
+  const host = fakeSocket();
+  const player = fakeSocket();
+  send(host.socket, {
+    type: "create",
+    hostId: "teacher",
+    settings: { track: "IELTS", level: 1, mode: words[0].mode, questionTimeMs: 10000 },
+    words,
+    ...(record === undefined ? {} : { record })
+  });
+  const room = host.received.find(m => m.type === "room");
+  if (room?.type !== "room") throw new Error("room not created");
+  send(player.socket, { type: "join", code: room.code, playerId: "amy" });
+  others.forEach(playerId => send(fakeSocket().socket, { type: "join", code: room.code, playerId }));
+  send(host.socket, { type: "start" });
+  return { host, player };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  db = openDatabase(":memory:");
+  rooms = new RoomManager(db, 0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("RoomManager questions", () => {
+  it("send only the prompt and options before the reveal", () => {
+    const { player } = startRoom();
+    const question = player.received.find(m => m.type === "question");
+    expect(question).toMatchObject({ type: "question", index: 0 });
+    expect(question?.type === "question" && question.question).toEqual({
+      id: "q0",
+      mode: "EN_TO_ZH",
+      prompt: "abandon",
+      options: ["好处", "放弃", "容量", "下降"]
+    });
+  });
+
+  it("prompt with the meaning when the word is the answer", () => {
+    const spelling = WORDS.map(w => ({ ...w, mode: "SPELLING" as const, options: [], correctAnswer: w.word }));
+    const { player } = startRoom(spelling);
+    const question = player.received.find(m => m.type === "question");
+    expect(JSON.stringify(question)).not.toContain("abandon");
+    expect(question?.type === "question" && question.question.prompt).toBe("放弃");
+  });
+});
+
+describe("RoomManager results", () => {
+  // amy answers the first question right and lets the second time out
+  function playRoom(record?: boolean) {
+    const { player } = startRoom(WORDS, record);
+    send(player.socket, { type: "answer", index: 0, selected: "放弃" });
+    vi.runAllTimers();
+    return player;
+  }
+
+  it("are saved to history but kept off the level leaderboard", () => {
+    const player = playRoom();
+    expect(player.received.at(-1)).toMatchObject({ type: "finished" });
+    expect(listPlayerHistory(db, "amy")[0].record).toMatchObject({ correctCount: 1, totalWords: 2 });
+    expect(listPlayerHistory(db, "amy")[0].record.roomCode).toMatch(/^\d{4}$/);
+    expect(getLeaderboard(db, 1)).toEqual([]);
+  });
+
+  it("are saved for the other players when one record fails", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    db.exec("CREATE TRIGGER no_bob BEFORE INSERT ON players WHEN NEW.player_id = 'bob' BEGIN SELECT RAISE(ABORT, 'disk full'); END");
+    startRoom(WORDS, undefined, ["bob", "cat"]);
+    vi.runAllTimers();
+
+    expect(listPlayerHistory(db, "bob")).toEqual([]);
+    expect(listPlayerHistory(db, "amy")).toHaveLength(1);
+    expect(listPlayerHistory(db, "cat")).toHaveLength(1);
+  });
+
+  it("are not saved for rooms created with record: false", () => {
+    playRoom(false);
+    expect(listPlayerHistory(db, "amy")).toEqual([]);
+  });
+});
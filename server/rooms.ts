@@ -0,0 +1,442 @@
+import { randomInt } from "crypto";
+import type { Server } from "http";
+import { WebSocket, WebSocketServer } from "ws";
+import type { DB } from "./db";
+import { ConflictError, ForbiddenError, HttpError, NotFoundError, ValidationError } from "./errors";
+import { isNumber, isQuestionMode, isString, saveLevelResult } from "./records";
+import { formatDuration } from "../src/utils";
+import { getCurriculumLevel, getTrack, isTrackId } from "../src/game/curriculum";
+import { isAnswerCorrect } from "../src/game/gameReducer";
+import { computeStars, scoreAnswer } from "../src/services/scoring";
+import type {
+  LevelResult,
+  RoomClientMessage,
+  RoomPhase,
+  RoomQuestion,
+  RoomServerMessage,
+  RoomSettings,
+  RoomStanding,
+  UserAnswer,
+  Word
+} from "../src/types";
+
+// Live multiplayer rooms over WebSocket. The server owns the clock: it sends every
+// question to all players at once, scores answers on arrival (correctness plus speed,
+// the same points as single player) and saves one record per player when the game ends.
+
+export const ROOM_PATH = "/api/rooms";
+
+const MIN_QUESTION_MS = 3000;
+const MAX_QUESTION_MS = 60000;
+const MAX_WORDS = 100;
+const MAX_PLAYERS = 50;
+// Answers sent just before the deadline still count after the trip over the network
+const ANSWER_GRACE_MS = 500;
+const DEFAULT_REVEAL_MS = 4000;
+
+interface RoomPlayer {
+  playerId: string;
+  // null while disconnected; the player can join again with the same id
+  socket: WebSocket | null;
+  answers: UserAnswer[];
+  score: number;
+  combo: number;
+  lastPoints: number;
+}
+
+interface Room {
+  code: string;
+  hostId: string;
+  host: WebSocket;
+  settings: RoomSettings;
+  words: Word[];
+  // Whether the results are saved as records when the game ends
+  record: boolean;
+  players: Map<string, RoomPlayer>;
+  phase: RoomPhase;
+  index: number;
+  questionStartedAt: number;
+  startedAt: number;
+  timer: NodeJS.Timeout | null;
+}
+
+function isWord(value: any, mode: RoomSettings["mode"]): value is Word {
+  return value
+    && isString(value.id)
+    && isString(value.word)
+    && isString(value.translation)
+    && isString(value.correctAnswer)
+    && value.mode === mode
+    && Array.isArray(value.options)
+    && value.options.every(isString);
+}
+
+export function validateCreateRoom(body: any): { hostId: string; settings: RoomSettings; words: Word[]; record: boolean } {
+  const hostId = isString(body?.hostId) ? body.hostId.trim() : "";
+  if (!hostId) throw new ValidationError("hostId is required");
+  const settings = body?.settings;
+  if (!settings || !isTrackId(settings.track)) throw new ValidationError("settings.track is not a known track");
+  const levelCount = getTrack(settings.track).levels.length;
+  if (!Number.isInteger(settings.level) || settings.level < 1 || settings.level > levelCount) {
+    throw new ValidationError(`settings.level must be between 1 and ${levelCount}`);
+  }
+  // Listening needs speech on every device, so rooms use the text modes
+  if (!isQuestionMode(settings.mode) || settings.mode === "LISTENING") {
+    throw new ValidationError("settings.mode must be EN_TO_ZH, ZH_TO_EN or SPELLING");
+  }
+  if (!isNumber(settings.questionTimeMs) || settings.questionTimeMs < MIN_QUESTION_MS || settings.questionTimeMs > MAX_QUESTION_MS) {
+    throw new ValidationError(`settings.questionTimeMs must be between ${MIN_QUESTION_MS} and ${MAX_QUESTION_MS}`);
+  }
+  if (!Array.isArray(body.words) || body.words.length === 0 || body.words.length > MAX_WORDS) {
+    throw new ValidationError(`words must be an array of 1 to ${MAX_WORDS} questions`);
+  }
+  body.words.forEach((w: unknown, i: number) => {
+    if (!isWord(w, settings.mode)) throw new ValidationError(`words[${i}] is malformed`);
+  });
+  if (body.record !== undefined && typeof body.record !== "boolean") throw new ValidationError("record must be a boolean");
+  const { track, level, mode, questionTimeMs } = settings;
+  return { hostId, settings: { track, level, mode, questionTimeMs }, words: body.words, record: body.record ?? true };
+}
+
+function toRoomQuestion(word: Word, index: number): RoomQuestion {
+  return {
+    id: `q${index}`,
+    mode: word.mode,
+    prompt: word.mode === "EN_TO_ZH" ? word.word : word.translation,
+    options: word.options
+  };
+}
+
+// Highest score first; ties go to the player who answered faster overall
+function rankPlayers(players: Iterable<RoomPlayer>): RoomStanding[] {
+  const totalMs = (p: RoomPlayer) => p.answers.reduce((sum, a) => sum + a.responseMs, 0);
+  return [...players]
+    .sort((a, b) => b.score - a.score || totalMs(a) - totalMs(b))
+    .map((p, i) => ({
+      rank: i + 1,
+      playerId: p.playerId,
+      score: p.score,
+      correctCount: p.answers.filter(a => a.isCorrect).length,
+      lastPoints: p.lastPoints,
+      connected: p.socket !== null
+    }));
+}
+
+// One GameRecord per player, like a finished level in single player
+function buildRoomResults(room: Room, endedAt: number): LevelResult[] {
+  const { rules } = getCurriculumLevel(getTrack(room.settings.track), room.settings.level);
+  const durationMs = endedAt - room.startedAt;
+  return [...room.players.values()].map(player => {
+    const correctCount = player.answers.filter(a => a.isCorrect).length;
+    const accuracy = (correctCount / room.words.length) * 100;
+    return {
+      record: {
+        // Unique per game, so saving the room again cannot duplicate it
+        playerNo: `room-${room.code}-${room.startedAt}`,
+        playerId: player.playerId,
+        startTime: new Date(room.startedAt).toLocaleString(),
+        endTime: new Date(endedAt).toLocaleString(),
+        duration: formatDuration(durationMs),
+        maxLevel: room.settings.level,
+        totalWords: room.words.length,
+        correctCount,
+        accuracy: `${accuracy.toFixed(2)}%`,
+        mode: room.settings.mode,
+        score: player.score,
+        stars: computeStars(accuracy, rules),
+        track: room.settings.track,
+        roomCode: room.code
+      },
+      durationMs,
+      answers: player.answers.map((a, i) => ({
+        word: room.words[i].word,
+        translation: room.words[i].translation,
+        selected: a.selected,
+        isCorrect: a.isCorrect
+      }))
+    };
+  });
+}
+
+export class RoomManager {
+  private rooms = new Map<string, Room>();
+  // Which room, and which player in it, a socket belongs to; playerId is null for the host
+  private members = new Map<WebSocket, { code: string; playerId: string | null }>();
+
+  constructor(private db: DB, private revealMs = DEFAULT_REVEAL_MS, private now: () => number = Date.now) {}
+
+  handleMessage(socket: WebSocket, raw: string): void {
+    try {
+      let message: RoomClientMessage;
+      try {
+        message = JSON.parse(raw);
+      } catch {
+        throw new ValidationError("Messages must be JSON");
+      }
+      switch (message?.type) {
+        case "create":
+          return this.create(socket, message);
+        case "join":
+          return this.join(socket, message);
+        case "start":
+          return this.start(socket);
+        case "answer":
+          return this.answer(socket, message);
+        default:
+          throw new ValidationError("Unknown message type");
+      }
+    } catch (error) {
+      if (!(error instanceof HttpError)) console.error("Room message failed:", error);
+      const message = error instanceof HttpError ? error.message : "Internal server error";
+      send(socket, { type: "error", message });
+    }
+  }
+
+  handleClose(socket: WebSocket): void {
+    const member = this.members.get(socket);
+    this.members.delete(socket);
+    const room = member && this.rooms.get(member.code);
+    if (!room) return;
+
+    if (member.playerId === null) {
+      this.closeRoom(room, "The host left the room");
+      return;
+    }
+    const player = room.players.get(member.playerId);
+    if (!player || player.socket !== socket) return;
+    // Players who leave before the start are dropped; later ones keep their score
+    if (room.phase === "LOBBY") room.players.delete(player.playerId);
+    else player.socket = null;
+    this.broadcastRoom(room);
+    if (room.phase === "QUESTION") this.closeQuestionIfAllAnswered(room);
+  }
+
+  private generateCode(): string {
+    for (;;) {
+      const code = String(randomInt(1000, 10000));
+      if (!this.rooms.has(code)) return code;
+    }
+  }
+
+  private create(socket: WebSocket, message: RoomClientMessage): void {
+    if (this.members.has(socket)) throw new ConflictError("This connection is already in a room");
+    const { hostId, settings, words, record } = validateCreateRoom(message);
+    const room: Room = {
+      code: this.generateCode(),
+      hostId,
+      host: socket,
+      settings,
+      words,
+      record,
+      players: new Map(),
+      phase: "LOBBY",
+      index: -1,
+      questionStartedAt: 0,
+      startedAt: 0,
+      timer: null
+    };
+    this.rooms.set(room.code, room);
+    this.members.set(socket, { code: room.code, playerId: null });
+    this.broadcastRoom(room);
+  }
+
+  // Messages are parsed from the network, so every field is still checked
+  private join(socket: WebSocket, message: Extract<RoomClientMessage, { type: "join" }>): void {
+    if (this.members.has(socket)) throw new ConflictError("This connection is already in a room");
+    const code = isString(message.code) ? message.code.trim() : "";
+    const playerId = isString(message.playerId) ? message.playerId.trim() : "";
+    if (!playerId) throw new ValidationError("playerId is required");
+    const room = this.rooms.get(code);
+    if (!room) throw new NotFoundError("Room not found");
+
+    const existing = room.players.get(playerId);
+    if (existing?.socket) throw new ConflictError("That playerId is already in the room");
+    if (!existing) {
+      if (room.phase !== "LOBBY") throw new ConflictError("The game has already started");
+      if (room.players.size >= MAX_PLAYERS) throw new ConflictError("The room is full");
+      room.players.set(playerId, { playerId, socket, answers: [], score: 0, combo: 0, lastPoints: 0 });
+    } else {
+      // Rejoining after a dropped connection
+      existing.socket = socket;
+    }
+    this.members.set(socket, { code, playerId });
+    this.broadcastRoom(room);
+    if (room.phase === "QUESTION" && (existing?.answers.length ?? 0) === room.index) {
+      send(socket, this.questionMessage(room));
+    }
+  }
+
+  private start(socket: WebSocket): void {
+    const room = this.roomOf(socket);
+    if (this.members.get(socket)?.playerId !== null) throw new ForbiddenError("Only the host can start the game");
+    if (room.phase !== "LOBBY") throw new ConflictError("The game has already started");
+    if (room.players.size === 0) throw new ConflictError("No players have joined yet");
+    room.startedAt = this.now();
+    this.askQuestion(room, 0);
+  }
+
+  private answer(socket: WebSocket, message: Extract<RoomClientMessage, { type: "answer" }>): void {
+    const room = this.roomOf(socket);
+    const playerId = this.members.get(socket)?.playerId;
+    if (!playerId) throw new ForbiddenError("The host does not answer questions");
+    if (room.phase !== "QUESTION" || message.index !== room.index) throw new ConflictError("That question is closed");
+    if (!isString(message.selected)) throw new ValidationError("selected must be a string");
+    const player = room.players.get(playerId)!;
+    if (player.answers.length > room.index) return;
+
+    const { questionTimeMs } = room.settings;
+    const responseMs = this.now() - room.questionStartedAt;
+    if (responseMs > questionTimeMs + ANSWER_GRACE_MS) throw new ConflictError("That question is closed");
+    const word = room.words[room.index];
+    const isCorrect = isAnswerCorrect(word, message.selected);
+    const { points, combo } = scoreAnswer(isCorrect, Math.min(responseMs, questionTimeMs), player.combo, questionTimeMs);
+    this.recordAnswer(player, {
+      wordId: word.id,
+      selected: message.selected,
+      isCorrect,
+      responseMs: Math.min(responseMs, questionTimeMs),
+      timedOut: false,
+      points,
+      combo
+    });
+
+    const answered = [...room.players.values()].filter(p => p.answers.length > room.index).length;
+    this.broadcast(room, { type: "answered", index: room.index, answered, players: room.players.size });
+    this.closeQuestionIfAllAnswered(room);
+  }
+
+  private recordAnswer(player: RoomPlayer, answer: UserAnswer): void {
+    player.answers.push(answer);
+    player.score += answer.points;
+    player.combo = answer.combo;
+    player.lastPoints = answer.points;
+  }
+
+  private roomOf(socket: WebSocket): Room {
+    const member = this.members.get(socket);
+    const room = member && this.rooms.get(member.code);
+    if (!room) throw new NotFoundError("Join or create a room first");
+    return room;
+  }
+
+  private questionMessage(room: Room): RoomServerMessage {
+    const question = toRoomQuestion(room.words[room.index], room.index);
+    const remaining = room.settings.questionTimeMs - (this.now() - room.questionStartedAt);
+    return { type: "question", index: room.index, total: room.words.length, question, timeLimitMs: Math.max(0, remaining) };
+  }
+
+  private askQuestion(room: Room, index: number): void {
+    room.phase = "QUESTION";
+    room.index = index;
+    room.questionStartedAt = this.now();
+    this.broadcastRoom(room);
+    this.broadcast(room, this.questionMessage(room));
+    this.schedule(room, () => this.closeQuestion(room), room.settings.questionTimeMs + ANSWER_GRACE_MS);
+  }
+
+  private closeQuestionIfAllAnswered(room: Room): void {
+    const waiting = [...room.players.values()].some(p => p.socket && p.answers.length <= room.index);
+    if (!waiting) this.closeQuestion(room);
+  }
+
+  // Players who did not answer in time score nothing and lose their combo
+  private closeQuestion(room: Room): void {
+    if (room.phase !== "QUESTION") return;
+    const word = room.words[room.index];
+    for (const player of room.players.values()) {
+      if (player.answers.length > room.index) continue;
+      this.recordAnswer(player, {
+        wordId: word.id,
+        selected: "",
+        isCorrect: false,
+        responseMs: room.settings.questionTimeMs,
+        timedOut: true,
+        points: 0,
+        combo: 0
+      });
+    }
+
+    room.phase = "REVEAL";
+    const ranking = rankPlayers(room.players.values());
+    const reveal = { type: "reveal" as const, index: room.index, word: word.word, translation: word.translation, correctAnswer: word.correctAnswer, ranking };
+    send(room.host, reveal);
+    for (const player of room.players.values()) {
+      const { selected, isCorrect, points } = player.answers[room.index];
+      if (player.socket) send(player.socket, { ...reveal, yourAnswer: { selected, isCorrect, points } });
+    }
+
+    const next = room.index + 1;
+    this.schedule(room, () => (next < room.words.length ? this.askQuestion(room, next) : this.finish(room)), this.revealMs);
+  }
+
+  private finish(room: Room): void {
+    room.phase = "FINISHED";
+    // Saved one by one, so a player whose record fails does not cost the others theirs
+    if (room.record) {
+      for (const result of buildRoomResults(room, this.now())) {
+        try {
+          saveLevelResult(this.db, result);
+        } catch (error) {
+          console.error(`Failed to save room result of ${result.record.playerId}:`, error);
+        }
+      }
+    }
+    this.broadcast(room, { type: "finished", ranking: rankPlayers(room.players.values()) });
+    this.removeRoom(room);
+  }
+
+  private closeRoom(room: Room, reason: string): void {
+    this.broadcast(room, { type: "closed", reason });
+    this.removeRoom(room);
+  }
+
+  private removeRoom(room: Room): void {
+    if (room.timer) clearTimeout(room.timer);
+    this.rooms.delete(room.code);
+    for (const [socket, member] of this.members) {
+      if (member.code === room.code) this.members.delete(socket);
+    }
+  }
+
+  private schedule(room: Room, run: () => void, delayMs: number): void {
+    if (room.timer) clearTimeout(room.timer);
+    room.timer = setTimeout(() => {
+      room.timer = null;
+      run();
+    }, delayMs);
+  }
+
+  private broadcastRoom(room: Room): void {
+    this.broadcast(room, {
+      type: "room",
+      code: room.code,
+      hostId: room.hostId,
+      settings: room.settings,
+      phase: room.phase,
+      totalQuestions: room.words.length,
+      players: rankPlayers(room.players.values())
+    });
+  }
+
+  private broadcast(room: Room, message: RoomServerMessage): void {
+    send(room.host, message);
+    for (const player of room.players.values()) {
+      if (player.socket) send(player.socket, message);
+    }
+  }
+}
+
+function send(socket: WebSocket, message: RoomServerMessage): void {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+}
+
+// Rooms share the HTTP server (and port) of the API, so they work wherever the API is reachable on the LAN
+export function attachRooms(server: Server, db: DB): RoomManager {
+  const rooms = new RoomManager(db);
+  const wss = new WebSocketServer({ server, path: ROOM_PATH });
+  wss.on("connection", socket => {
+    socket.on("message", data => rooms.handleMessage(socket, data.toString()));
+    socket.on("close", () => rooms.handleClose(socket));
+  });
+  return rooms;
+}
@@ -3,8 +3,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { motion, AnimatePresence } from 'motion/react';
+import React, { useState, useEffect, useCallback, useMemo, useRef, useReducer } from 'react';
+import { motion, AnimatePresence, MotionConfig } from 'motion/react';
 import { 
   Trophy, 
   Play, 
@@ -17,129 +17,688 @@ import {
   Timer,
   BarChart3,
   Gamepad2,
-  ArrowLeft
+  ArrowLeft,
+  BookOpen,
+  Flame,
+  LineChart,
+  Star,
+  AlertTriangle,
+  Upload,
+  X,
+  GraduationCap,
+  ClipboardList,
+  Swords,
+  Share2,
+  Download,
+  WifiOff,
+  CloudUpload,
+  Trash2,
+  Users
 } from 'lucide-react';
 import confetti from 'canvas-confetti';
 import { cn, playWord, formatDuration } from './utils';
-import { GameState, Word, GameRecord } from './types';
-import { generateLevelWords, generateDistractors } from './services/geminiService';
-import { sheetsService } from './services/sheetsService';
-
-// Mock data generator for immediate playability
-const MOCK_WORDS: Record<number, {word: string, translation: string}[]> = {
-  1: [
-    { word: "abandon", translation: "放弃" },
-    { word: "ability", translation: "能力" },
-    { word: "abroad", translation: "在国外" },
-    { word: "absolute", translation: "绝对的" },
-    { word: "academic", translation: "学术的" },
-    { word: "accent", translation: "口音" },
-    { word: "accept", translation: "接受" },
-    { word: "access", translation: "接近；进入" },
-    { word: "accident", translation: "事故" },
-    { word: "account", translation: "账户；解释" },
-  ]
+import { Word, RawWord, UserAnswer, LevelResult, PlayerProgress, PlayerProfile, SessionMode, QuestionMode, CustomWordList, Assignment, ClassInfo, TrackId, WordMastery, RecordSource } from './types';
+import { GeminiError } from './services/geminiService';
+import { MEANING_MODES, NoWordsError, SkippedRows, levelLoader } from './services/levelLoader';
+import { BUILTIN_WORDS } from './game/builtinWords';
+import { diffLetters } from './services/answerMatching';
+import {
+  speechAdapter,
+  canListen,
+  ListeningSession,
+  ListeningSettings,
+  DEFAULT_LISTENING_SETTINGS,
+  SpeechVoice
+} from './services/speechService';
+import { sheetsService, SheetsFetchError } from './services/sheetsService';
+import { recordService } from './services/recordService';
+import { profileStore, progressStore } from './services/progressStore';
+import { createProgress } from './game/progression';
+import { reviewStore } from './services/reviewService';
+import { DEFAULT_LEVEL_RULES } from './services/scoring';
+import { DEFAULT_TRACK_ID, TRACKS, Track, getCurriculumLevel, getTrack } from './game/curriculum';
+import {
+  gameReducer,
+  initialSession,
+  isAnswerCorrect,
+  scoreSession,
+  sessionDuration,
+  GameSession
+} from './game/gameReducer';
+import { historyStore, mergeHistory } from './services/historyStore';
+import { computeSummary } from './services/summaryService';
+import AccuracyTrendChart from './components/AccuracyTrendChart';
+import WordImport from './components/WordImport';
+import { customWordStore } from './services/customWordStore';
+import TeacherDashboard from './components/TeacherDashboard';
+import { classService, classMembershipStore } from './services/classService';
+import { sessionStore, SessionSnapshot } from './services/sessionStore';
+import { levelPackStore } from './services/levelPackStore';
+import { masteryStore, hardestWords, correctRate, averageResponseMs, isMastered } from './services/masteryService';
+import { Achievement } from './game/achievements';
+import { finishSession } from './game/finishSession';
+import { activeStreak, createProfile, getAvatar } from './game/profile';
+import { recordQueue, RecordSenders } from './services/recordQueue';
+import { loadReducedMotion, loadTrackId, saveReducedMotion, saveTrackId } from './services/preferences';
+import { Challenge, challengeKey, challengeUrl, generateSeed, parseChallenge } from './game/challenge';
+import Leaderboard from './components/Leaderboard';
+import ProfilePage from './components/ProfilePage';
+import LiveRoom from './components/LiveRoom';
+import { ROOM_QUESTION_TIME_MS } from './services/roomService';
+
+const QUESTION_MODES: { mode: QuestionMode; label: string }[] = [
+  { mode: 'EN_TO_ZH', label: '英译中' },
+  { mode: 'ZH_TO_EN', label: '中译英' },
+  { mode: 'SPELLING', label: '拼写' },
+  { mode: 'LISTENING', label: '听力' }
+];
+
+// Where finished levels go; unsent ones wait in the record queue
+const RECORD_SENDERS: RecordSenders = {
+  backend: async result => {
+    await recordService.saveLevelResult(result);
+  },
+  sheets: result => sheetsService.saveRecord(result.record)
 };
 
+// Shown to the player when a level cannot be started
+function loadErrorMessage(error: unknown): string {
+  if (error instanceof GeminiError) return error.userMessage;
+  if (error instanceof SheetsFetchError) return '读取 Google 表格词库失败，请检查网络后重试。';
+  if (error instanceof NoWordsError) return '这一关暂时没有可用的单词，请稍后重试或换一个词库。';
+  return '关卡加载失败，请重试。';
+}
+
 export default function App() {
-  const [gameState, setGameState] = useState<GameState>('LOBBY');
+  const [session, dispatch] = useReducer(gameReducer, initialSession);
+  const { gameState, words, currentIndex, sessionMode, rules, questionStartedAt } = session;
+  const userAnswers = session.answers;
+  const currentLevel = session.level;
+  const durationMs = sessionDuration(session);
   const [playerId, setPlayerId] = useState('');
-  const [currentLevel, setCurrentLevel] = useState(1);
-  const [words, setWords] = useState<Word[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [userAnswers, setUserAnswers] = useState<{wordId: number, selected: string, isCorrect: boolean}[]>([]);
-  const [startTime, setStartTime] = useState<number>(0);
+  const [now, setNow] = useState(() => Date.now());
   const [isLoading, setIsLoading] = useState(false);
-  const [unlockedLevel, setUnlockedLevel] = useState(1);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [pendingRecords, setPendingRecords] = useState(() => recordQueue.list().length);
+  // Records the server refused since the app was opened; they are not saved
+  const [rejectedRecords, setRejectedRecords] = useState(0);
+  const [packProgress, setPackProgress] = useState<{ done: number; total: number } | null>(null);
+  // Bumped whenever packs are downloaded or deleted
+  const [packVersion, setPackVersion] = useState(0);
+  // Why the last attempt to start a level failed, and how to try it again
+  const [loadError, setLoadError] = useState<{ message: string; retry: () => void } | null>(null);
+  // Rows of the last loaded sheet that were not valid words and were left out of the level
+  const [skippedRows, setSkippedRows] = useState<SkippedRows | null>(null);
+  const [trackId, setTrackId] = useState<TrackId>(() => loadTrackId());
+  const track = getTrack(trackId);
+  const [progress, setProgress] = useState<PlayerProgress>(() => createProgress('', trackId));
+  const unlockedLevel = progress.unlockedLevel;
+  const [profile, setProfile] = useState<PlayerProfile>(() => createProfile(''));
+  // Achievements unlocked by the level on the result screen
+  const [unlocked, setUnlocked] = useState<Achievement[]>([]);
+  const [questionMode, setQuestionMode] = useState<QuestionMode>('EN_TO_ZH');
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [listeningSettings, setListeningSettings] = useState<ListeningSettings>(DEFAULT_LISTENING_SETTINGS);
+  const [voices, setVoices] = useState<SpeechVoice[]>(() => speechAdapter.getVoices());
+  const [playsLeft, setPlaysLeft] = useState(0);
+  const listeningAvailable = useMemo(() => canListen(speechAdapter), [voices]);
+  const listeningSession = useMemo(
+    () => new ListeningSession(speechAdapter, listeningSettings),
+    [listeningSettings]
+  );
+
+  useEffect(() => {
+    const update = () => setVoices(speechAdapter.getVoices());
+    update();
+    return speechAdapter.onVoicesChanged(update);
+  }, []);
+  const [dueReviewCount, setDueReviewCount] = useState(0);
+  const [customList, setCustomList] = useState<CustomWordList | null>(() => customWordStore.load());
+  const levelCount = customList ? Math.min(customList.levels.length, track.levels.length) : track.levels.length;
+  const downloadedLevels = useMemo(() => levelPackStore.downloadedLevels(trackId, track.levels.length), [trackId, packVersion]);
+  const [history, setHistory] = useState<LevelResult[]>([]);
+  const summary = useMemo(() => computeSummary(history), [history]);
+  // The 最难单词 report, from the mastery store rather than the history
+  const [hardest, setHardest] = useState<WordMastery[]>([]);
+  // Word banks of levels loaded so far; offline distractors are drawn from neighbouring levels
+  const levelBanks = useRef<Record<number, RawWord[]>>({ ...BUILTIN_WORDS });
+
+  const [joinedClass, setJoinedClass] = useState<ClassInfo | null>(null);
+  const [joinCode, setJoinCode] = useState('');
+  const [classAssignments, setClassAssignments] = useState<Assignment[]>([]);
+  const [classError, setClassError] = useState('');
+
+  // Restore a returning player's progress as soon as their ID is typed; each track unlocks separately
+  useEffect(() => {
+    const id = playerId.trim();
+    setProgress(id ? progressStore.load(id, trackId) : createProgress('', trackId));
+  }, [playerId, trackId]);
+
+  useEffect(() => {
+    const id = playerId.trim();
+    setJoinedClass(id ? classMembershipStore.joinedClass(id) : null);
+    setProfile(id ? profileStore.load(id) : createProfile(''));
+  }, [playerId]);
+
+  const saveProfile = (next: PlayerProfile) => {
+    profileStore.save(next);
+    setProfile(next);
+  };
+
+  const masteredCount = () => masteryStore.all(playerId.trim()).filter(isMastered).length;
+
+  // The achievement toast belongs to the result it was earned on
+  useEffect(() => {
+    if (gameState !== 'RESULT') setUnlocked([]);
+  }, [gameState]);
+
+  const changeTrack = (next: TrackId) => {
+    saveTrackId(next);
+    setTrackId(next);
+  };
+
+  // Assignments are refreshed every time the player is back in the lobby
+  useEffect(() => {
+    if (gameState !== 'LOBBY' || !joinedClass) {
+      setClassAssignments([]);
+      return;
+    }
+    classService.fetchAssignments(joinedClass.classId)
+      .then(setClassAssignments)
+      .catch(error => console.warn("Class assignments unavailable:", error));
+  }, [gameState, joinedClass]);
+
+  const joinClass = async () => {
+    const id = playerId.trim();
+    setClassError('');
+    try {
+      const classInfo = await classService.joinClass(joinCode.trim(), id);
+      classMembershipStore.saveJoinedClass(id, classInfo);
+      setJoinedClass(classInfo);
+      setJoinCode('');
+    } catch (error) {
+      setClassError(`加入班级失败：${(error as Error).message}`);
+    }
+  };
+
+  const leaveClass = () => {
+    const id = playerId.trim();
+    if (!joinedClass || !window.confirm(`确定要退出 ${joinedClass.name} 吗？`)) return;
+    classMembershipStore.saveJoinedClass(id, null);
+    setJoinedClass(null);
+  };
+
+  const [interrupted, setInterrupted] = useState<SessionSnapshot | null>(null);
+  const [reducedMotion, setReducedMotion] = useState(() => loadReducedMotion());
+  const [showFeedback, setShowFeedback] = useState(false);
+  // A challenge opened from a shared link, waiting for the player to accept it
+  const [pendingChallenge, setPendingChallenge] = useState<Challenge | null>(() => parseChallenge(window.location.search));
+  const [shareStatus, setShareStatus] = useState('');
+  const [leaderboardTrack, setLeaderboardTrack] = useState<TrackId>(DEFAULT_TRACK_ID);
+  const [leaderboardLevel, setLeaderboardLevel] = useState(1);
+  const [leaderboardMode, setLeaderboardMode] = useState<QuestionMode>('EN_TO_ZH');
+  // Bumped once a record is saved so open leaderboards include it
+  const [leaderboardVersion, setLeaderboardVersion] = useState(0);
+  // Read by screen readers through the aria-live region
+  const [announcement, setAnnouncement] = useState('');
+  const questionRef = useRef<HTMLHeadingElement>(null);
+  const resultHeadingRef = useRef<HTMLHeadingElement>(null);
+
+  const flushRecords = () =>
+    recordQueue.flush(RECORD_SENDERS).then(({ sent, pending, rejected }) => {
+      setPendingRecords(pending);
+      if (rejected > 0) setRejectedRecords(n => n + rejected);
+      if (sent > 0) setLeaderboardVersion(v => v + 1);
+    });
+
+  // Records queued in an earlier visit or while offline go out once the connection is back
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true);
+      flushRecords();
+    };
+    const goOffline = () => setIsOnline(false);
+    flushRecords();
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  const toggleReducedMotion = () => {
+    saveReducedMotion(!reducedMotion);
+    setReducedMotion(!reducedMotion);
+  };
+
+  // Refresh the due count and any interrupted level whenever the player returns to the lobby
+  useEffect(() => {
+    const id = playerId.trim();
+    if (gameState === 'LOBBY') {
+      setDueReviewCount(id ? reviewStore.due(id).length : 0);
+      setInterrupted(id ? sessionStore.load(id) : null);
+    }
+  }, [playerId, gameState]);
+
+  // Snapshot after every answer (and at the start) so a closed tab can resume the level
+  useEffect(() => {
+    const id = playerId.trim();
+    if (gameState === 'PLAYING' && id) {
+      sessionStore.save(id, session, Date.now());
+    }
+  }, [session]);
+
+  const resumeSession = () => {
+    if (!interrupted) return;
+    setTypedAnswer('');
+    dispatch({ type: 'RESUME_SESSION', session: interrupted.session, pausedAt: interrupted.savedAt, now: Date.now() });
+  };
+
+  const resetProgress = () => {
+    const id = playerId.trim();
+    if (!id || !window.confirm(`确定要清除 ${id} 的闯关进度吗？`)) return;
+    progressStore.reset(id, trackId);
+    reviewStore.reset(id);
+    setProgress(createProgress(id, trackId));
+    setDueReviewCount(0);
+  };
+
+  // Local history renders immediately; backend history is merged in when reachable
+  const openSummary = () => {
+    const id = playerId.trim();
+    const local = historyStore.list(id);
+    setHistory(local);
+    setHardest(hardestWords(masteryStore.all(id)));
+    dispatch({ type: 'OPEN_SUMMARY' });
+
+    recordService.fetchHistory(id)
+      .then(remote => setHistory(current => mergeHistory(current, remote)))
+      .catch(error => console.warn("Backend history unavailable, showing local records only:", error));
+  };
+
+  const applyCustomList = (list: CustomWordList | null) => {
+    if (list) customWordStore.save(list);
+    else customWordStore.clear();
+    setCustomList(list);
+    // Cached banks belong to the previous source
+    levelBanks.current = list ? Object.fromEntries(list.levels.map((words, i) => [i + 1, words])) : { ...BUILTIN_WORDS };
+    dispatch({ type: 'BACK_TO_LOBBY' });
+  };
+
+  const beginSession = (
+    preparedWords: Word[],
+    mode: SessionMode,
+    level: number,
+    {
+      assignment = null,
+      source,
+      challenge = null,
+      sessionTrack = track
+    }: { assignment?: Assignment | null; source?: RecordSource; challenge?: Challenge | null; sessionTrack?: Track } = {}
+  ) => {
+    setTypedAnswer('');
+    setShareStatus('');
+    setLoadError(null);
+    dispatch({
+      type: 'START_SESSION',
+      words: preparedWords,
+      sessionMode: mode,
+      questionMode: challenge?.mode ?? questionMode,
+      trackId: sessionTrack.id,
+      level,
+      // Review sessions are never timed and have no unlocks, so they use the defaults
+      rules: mode === 'REVIEW' ? DEFAULT_LEVEL_RULES : getCurriculumLevel(sessionTrack, level).rules,
+      assignment,
+      source,
+      challengeSeed: challenge?.seed ?? null,
+      challengeSource: challenge?.source ?? null,
+      showFeedback,
+      now: Date.now()
+    });
+  };
+
+  const failLoading = (what: string, error: unknown, retry: () => void) => {
+    console.error(what, error);
+    setLoadError({ message: loadErrorMessage(error), retry });
+  };
 
   // Initialize game
-  const startLevel = async (level: number) => {
+  const startLevel = async (level: number, assignment: Assignment | null = null) => {
     setIsLoading(true);
     try {
-      // 1. Fetch words (from Sheets or Gemini)
-      let rawWords = await sheetsService.fetchLevelWords(level);
-      if (rawWords.length === 0) {
-        // Fallback to Gemini generation or mock
-        rawWords = MOCK_WORDS[level] || await generateLevelWords(level);
+      const loaded = await levelLoader.level({
+        level,
+        track,
+        assignment,
+        customList,
+        mastery: masteryStore.all(playerId.trim()),
+        banks: levelBanks.current,
+        mode: questionMode,
+        withDetails: showFeedback
+      });
+      setSkippedRows(loaded.skipped);
+      levelBanks.current[level] = loaded.rawWords;
+      beginSession(loaded.words, 'LEVEL', level, { assignment, source: loaded.source, sessionTrack: loaded.track });
+    } catch (error) {
+      failLoading("Failed to start level:", error, () => startLevel(level, assignment));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Listening needs speech on every device, so rooms fall back to 英译中
+  const roomMode: QuestionMode = questionMode === 'LISTENING' ? 'EN_TO_ZH' : questionMode;
+
+  const loadRoomQuestions = async (): Promise<Word[]> => {
+    const { words: roomWords, skipped } = await levelLoader.roomQuestions(unlockedLevel, track, customList, roomMode);
+    setSkippedRows(skipped);
+    return roomWords;
+  };
+
+  const startChallenge = async (challenge: Challenge) => {
+    setIsLoading(true);
+    try {
+      const loaded = await levelLoader.challenge(challenge, showFeedback);
+      setSkippedRows(loaded.skipped);
+      beginSession(loaded.words, 'LEVEL', challenge.level, { challenge: loaded.challenge, sessionTrack: loaded.track });
+    } catch (error) {
+      failLoading("Failed to start challenge:", error, () => startChallenge(challenge));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Words, example sentences and meaning options of every unlocked level of the track
+  const downloadLevelPacks = async () => {
+    const levels = Array.from({ length: Math.min(unlockedLevel, levelCount) }, (_, i) => i + 1);
+    setPackProgress({ done: 0, total: levels.length });
+    try {
+      for (const level of levels) {
+        levelPackStore.save(await levelLoader.levelPack(level, track, levelBanks.current));
+        setPackProgress({ done: level, total: levels.length });
       }
+    } catch (error) {
+      failLoading("Failed to download level packs:", error, downloadLevelPacks);
+    } finally {
+      setPackProgress(null);
+      setPackVersion(v => v + 1);
+    }
+  };
 
-      // 2. Prepare words with distractors
-      const preparedWords: Word[] = await Promise.all(
-        rawWords.slice(0, 50).map(async (w: any, idx: number) => {
-          const distractors = await generateDistractors(w.word, w.translation);
-          const options = [...distractors, w.translation].sort(() => Math.random() - 0.5);
-          return {
-            id: idx,
-            word: w.word,
-            translation: w.translation,
-            options,
-            correctAnswer: w.translation
-          };
-        })
-      );
+  const clearLevelPacks = () => {
+    if (!window.confirm(`确定要删除${track.name}的离线关卡包吗？`)) return;
+    levelPackStore.clear(track.id, track.levels.length);
+    setPackVersion(v => v + 1);
+  };
+
+  const acceptChallenge = () => {
+    if (!pendingChallenge) return;
+    window.history.replaceState(null, '', window.location.pathname);
+    setPendingChallenge(null);
+    startChallenge(pendingChallenge);
+  };
+
+  const currentChallenge = (): Challenge | null =>
+    session.challengeSeed
+      ? {
+          seed: session.challengeSeed,
+          track: session.trackId,
+          level: currentLevel,
+          mode: session.questionMode,
+          ...(session.challengeSource ? { source: session.challengeSource } : {})
+        }
+      : null;
+
+  // Copies a link to the challenge just played, or to a new challenge on this level
+  const shareChallenge = async () => {
+    const challenge = currentChallenge()
+      ?? { seed: generateSeed(), track: session.trackId, level: currentLevel, mode: session.questionMode };
+    const url = challengeUrl(challenge, window.location.href);
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareStatus('挑战链接已复制，发给好友吧！');
+    } catch {
+      window.prompt('复制挑战链接', url);
+    }
+  };
 
-      setWords(preparedWords);
-      setCurrentIndex(0);
-      setUserAnswers([]);
-      setStartTime(Date.now());
-      setGameState('PLAYING');
+  // A word-list assignment is played as a single level of its own words
+  const startWordAssignment = async (assignment: Assignment) => {
+    if (!assignment.words) return;
+    setIsLoading(true);
+    try {
+      const assignmentWords = await levelLoader.wordAssignment(assignment, questionMode, showFeedback);
+      beginSession(assignmentWords, 'LEVEL', 1, { assignment, sessionTrack: getTrack(DEFAULT_TRACK_ID) });
+    } catch (error) {
+      failLoading("Failed to start assignment:", error, () => startWordAssignment(assignment));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 错题复习: only the words whose SM-2 due date is today or earlier
+  const startReview = async () => {
+    const id = playerId.trim();
+    const due = reviewStore.due(id);
+    if (due.length === 0) return;
+
+    setIsLoading(true);
+    try {
+      const pool = [...due, ...Object.values<RawWord[]>(levelBanks.current).flat()];
+      beginSession(await levelLoader.prepareWords(due, pool, questionMode, { withDetails: showFeedback }), 'REVIEW', currentLevel);
     } catch (error) {
-      console.error("Failed to start level:", error);
+      failLoading("Failed to start review:", error, startReview);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleAnswer = (selected: string) => {
+  // Listening mode speaks each new word once automatically
+  const currentListeningWord = gameState === 'PLAYING' && words[currentIndex]?.mode === 'LISTENING'
+    ? words[currentIndex].word
+    : null;
+  useEffect(() => {
+    listeningSession.nextQuestion();
+    setPlaysLeft(listeningSession.playsLeft);
+    if (!currentListeningWord) return;
+    listeningSession.play(currentListeningWord);
+    setPlaysLeft(listeningSession.playsLeft);
+  }, [currentListeningWord, currentIndex, listeningSession]);
+
+  const replayListeningWord = () => {
+    if (!currentListeningWord) return;
+    listeningSession.play(currentListeningWord);
+    setPlaysLeft(listeningSession.playsLeft);
+  };
+
+  const handleAnswer = (selected: string, timedOut = false) => {
     const currentWord = words[currentIndex];
-    const isCorrect = selected === currentWord.correctAnswer;
-    
-    setUserAnswers(prev => [...prev, {
-      wordId: currentWord.id,
-      selected,
-      isCorrect
-    }]);
-
-    if (currentIndex < words.length - 1) {
-      setCurrentIndex(prev => prev + 1);
-    } else {
-      finishLevel();
+    if (!currentWord) return;
+    const isCorrect = !timedOut && isAnswerCorrect(currentWord, selected);
+    setTypedAnswer('');
+    dispatch({ type: 'ANSWER', selected, timedOut, now: Date.now() });
+    const answerText = MEANING_MODES.includes(currentWord.mode) ? currentWord.translation : currentWord.word;
+    // The question number keeps consecutive announcements distinct, so each one is read out
+    setAnnouncement(`第 ${currentIndex + 1} 题${isCorrect ? '回答正确' : `${timedOut ? '时间到' : '回答错误'}，正确答案是 ${answerText}`}`);
+
+    const id = playerId.trim();
+    const numberedLevel = sessionMode === 'LEVEL' && session.source === 'LEVEL' ? currentLevel : null;
+    masteryStore.recordAnswer(id, currentWord, isCorrect, Date.now() - questionStartedAt, numberedLevel);
+    if (sessionMode === 'REVIEW') {
+      reviewStore.recordAnswer(id, currentWord.word, isCorrect);
+    } else if (!isCorrect) {
+      reviewStore.addMissed(id, currentWord);
     }
   };
 
-  const finishLevel = async () => {
-    const endTime = Date.now();
-    const duration = endTime - startTime;
-    const correctCount = userAnswers.filter(a => a.isCorrect).length;
-    const accuracy = (correctCount / words.length) * 100;
-    const passed = accuracy >= 90;
+  const goToNextQuestion = () => {
+    setTypedAnswer('');
+    dispatch({ type: 'NEXT_QUESTION', now: Date.now() });
+  };
+
+  // Per-question countdown: an unanswered question counts as wrong when time runs out
+  useEffect(() => {
+    if (gameState !== 'PLAYING' || session.awaitingNext || !rules.questionTimeLimitMs) return;
+    const remaining = rules.questionTimeLimitMs - (Date.now() - questionStartedAt);
+    const timeout = setTimeout(() => handleAnswer('', true), Math.max(0, remaining));
+    const ticker = setInterval(() => setNow(Date.now()), 250);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(ticker);
+    };
+  }, [gameState, currentIndex, questionStartedAt, rules.questionTimeLimitMs, session.awaitingNext]);
+
+  // Runs once per finished session, after the reducer has recorded the final answer
+  const finishedSessionRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (gameState !== 'RESULT' || session.endTime === null) return;
+    if (finishedSessionRef.current === session.startTime) return;
+    finishedSessionRef.current = session.startTime;
+    sessionStore.clear(playerId.trim());
+    const { accuracy, passed } = scoreSession(session);
+    const outcome = session.sessionMode === 'REVIEW' ? '复习完成' : passed ? '通关成功' : '未通过';
+    setAnnouncement(current => `${current}。${outcome}，正确率 ${accuracy.toFixed(1)}%，按回车键继续`);
+    finishLevel(session);
+  }, [gameState, session]);
+
+  // Move focus to the new question / result so keyboard and screen reader users follow along
+  useEffect(() => {
+    if (gameState === 'PLAYING' && words[currentIndex]?.mode !== 'SPELLING') questionRef.current?.focus();
+    if (gameState === 'RESULT') resultHeadingRef.current?.focus();
+  }, [gameState, currentIndex]);
+
+  const retryLevel = () => {
+    const { assignment } = session;
+    const challenge = currentChallenge();
+    if (challenge) return startChallenge(challenge);
+    return assignment?.words ? startWordAssignment(assignment) : startLevel(currentLevel, assignment);
+  };
 
-    if (passed) {
+  const canStartNextLevel = () =>
+    sessionMode !== 'REVIEW'
+    && scoreSession(session).passed
+    && !session.assignment?.words
+    && !session.challengeSeed
+    && session.trackId === trackId
+    && currentLevel < levelCount;
+
+  const startNextLevel = () => {
+    const { assignment } = session;
+    return startLevel(currentLevel + 1, assignment?.levels.includes(currentLevel + 1) ? assignment : null);
+  };
+
+  // A–D / 1–4 answer, Space replays the word, Enter continues from the result screen
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isLoading) return;
+      const target = e.target as HTMLElement;
+      const typing = ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+      // A focused button already reacts to Space and Enter by itself
+      if (typing || (target.tagName === 'BUTTON' && (e.key === ' ' || e.key === 'Enter'))) return;
+
+      if (gameState === 'PLAYING' && session.awaitingNext) {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          goToNextQuestion();
+        } else if (e.key === ' ') {
+          e.preventDefault();
+          playWord(words[currentIndex]?.word ?? '');
+        }
+      } else if (gameState === 'PLAYING') {
+        const currentWord = words[currentIndex];
+        if (!currentWord || currentWord.mode === 'SPELLING') return;
+        const index = 'abcd'.indexOf(e.key.toLowerCase()) >= 0 ? 'abcd'.indexOf(e.key.toLowerCase()) : '1234'.indexOf(e.key);
+        if (index >= 0 && currentWord.options[index]) {
+          e.preventDefault();
+          handleAnswer(currentWord.options[index]);
+        } else if (e.key === ' ') {
+          e.preventDefault();
+          // 中译英 shows the meaning, so speaking the word would give the answer away
+          if (currentWord.mode === 'LISTENING' && listeningAvailable) replayListeningWord();
+          else if (currentWord.mode !== 'ZH_TO_EN') playWord(currentWord.word);
+        }
+      } else if (gameState === 'RESULT' && e.key === 'Enter') {
+        e.preventDefault();
+        if (sessionMode === 'REVIEW') dispatch({ type: 'BACK_TO_LOBBY' });
+        else if (canStartNextLevel()) startNextLevel();
+        else retryLevel();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [session, isLoading, listeningAvailable, listeningSession, levelCount, trackId, playerId]);
+
+  const finishLevel = async (finished: GameSession) => {
+    const { score, progress: nextProgress, profile: nextProfile, earned, result } = finishSession(finished, {
+      progress,
+      profile,
+      playerId,
+      playerNo: Date.now().toString(),
+      classId: joinedClass?.classId,
+      masteredWords: masteredCount()
+    });
+    if (nextProgress) {
+      setProgress(nextProgress);
+      progressStore.save(nextProgress);
+    }
+    saveProfile(nextProfile);
+    setUnlocked(earned);
+    if (earned.length > 0) {
+      setAnnouncement(current => `${current}。解锁成就：${earned.map(a => a.title).join('、')}`);
+      if (!reducedMotion) {
+        confetti({
+          particleCount: 80,
+          spread: 100,
+          startVelocity: 35,
+          origin: { y: 0.3 },
+          shapes: ['star'],
+          colors: ['#FFD700', '#FFA500'],
+          disableForReducedMotion: true
+        });
+      }
+    }
+
+    // Review sessions only update the SM-2 schedule, not level progress or records
+    if (!result) return;
+
+    if (score.passed && !reducedMotion) {
       confetti({
         particleCount: 150,
         spread: 70,
         origin: { y: 0.6 },
-        colors: ['#FFD700', '#FF69B4', '#00BFFF']
+        colors: ['#FFD700', '#FF69B4', '#00BFFF'],
+        disableForReducedMotion: true
       });
-      if (currentLevel === unlockedLevel && unlockedLevel < 10) {
-        setUnlockedLevel(prev => prev + 1);
-      }
     }
 
-    const record: GameRecord = {
-      playerNo: Date.now().toString(),
-      playerId,
-      startTime: new Date(startTime).toLocaleString(),
-      endTime: new Date(endTime).toLocaleString(),
-      duration: formatDuration(duration),
-      maxLevel: currentLevel,
-      totalWords: words.length,
-      correctCount,
-      accuracy: `${accuracy.toFixed(2)}%`
-    };
+    historyStore.add(playerId.trim(), result);
+
+    // Queued first so a record made offline is not lost, then sent in the
+    // background so a slow backend doesn't hold up the result screen
+    recordQueue.enqueue(result);
+    setPendingRecords(recordQueue.list().length);
+    flushRecords();
+  };
 
-    await sheetsService.saveRecord(record);
-    setGameState('RESULT');
+  const renderProfileChip = () => {
+    const avatar = getAvatar(profile.avatar);
+    const streak = activeStreak(profile);
+    return (
+      <button
+        type="button"
+        onClick={() => dispatch({ type: 'OPEN_PROFILE' })}
+        className="mt-3 w-full flex items-center gap-3 px-4 py-2 bg-yellow-50 hover:bg-yellow-100 rounded-2xl transition-colors text-left"
+      >
+        <span className={cn("w-10 h-10 rounded-full flex items-center justify-center text-2xl", avatar.color)}>{avatar.emoji}</span>
+        <span className="flex-1 font-black text-gray-700 truncate">{profile.nickname}</span>
+        <span className="flex items-center gap-1 font-black text-orange-500" title="连续打卡天数">
+          <Flame className="w-4 h-4" />
+          {streak}
+        </span>
+        <span className="text-sm font-bold text-yellow-600">个人主页</span>
+      </button>
+    );
   };
 
   const renderLobby = () => (
@@ -157,6 +716,32 @@ export default function App() {
       </div>
 
       <div className="space-y-6">
+        {pendingChallenge && (
+          <div className="p-4 bg-orange-50 border-4 border-orange-200 rounded-2xl space-y-3">
+            <p className="flex items-center gap-2 font-black text-orange-600">
+              <Swords className="w-5 h-5" />
+              好友挑战：{getTrack(pendingChallenge.track).name} 第 {pendingChallenge.level} 关 · {QUESTION_MODES.find(m => m.mode === pendingChallenge.mode)?.label}
+            </p>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                disabled={!playerId}
+                onClick={acceptChallenge}
+                className="flex-1 py-2 bg-orange-500 hover:bg-orange-600 text-white rounded-xl font-black transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {playerId ? '接受挑战' : '先输入游戏ID'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setPendingChallenge(null)}
+                className="px-4 text-orange-400 hover:text-orange-600 font-bold"
+              >
+                忽略
+              </button>
+            </div>
+          </div>
+        )}
+
         <div>
           <label className="block text-sm font-bold text-gray-700 mb-2 uppercase tracking-widest">输入你的游戏ID</label>
           <div className="relative">
@@ -169,33 +754,229 @@ export default function App() {
               className="w-full pl-12 pr-4 py-4 bg-gray-50 border-4 border-gray-200 rounded-2xl focus:border-yellow-400 focus:outline-none font-bold text-lg transition-all"
             />
           </div>
+          {playerId.trim() && renderProfileChip()}
+        </div>
+
+        <div>
+          <label className="block text-sm font-bold text-gray-700 mb-2 uppercase tracking-widest">词库</label>
+          <div className="grid grid-cols-3 gap-2">
+            {Object.values(TRACKS).map(t => (
+              <button
+                key={t.id}
+                type="button"
+                onClick={() => changeTrack(t.id)}
+                title={t.description}
+                className={cn(
+                  "py-2 rounded-xl font-black transition-all border-b-4",
+                  trackId === t.id
+                    ? "bg-yellow-400 text-white border-yellow-600"
+                    : "bg-gray-100 text-gray-500 border-gray-200 hover:bg-gray-200"
+                )}
+              >
+                {t.name}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-xs font-bold text-gray-400">{track.description}</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-bold text-gray-700 mb-2 uppercase tracking-widest">题型</label>
+          <div className="grid grid-cols-4 gap-2">
+            {QUESTION_MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                type="button"
+                disabled={mode === 'LISTENING' && !listeningAvailable}
+                title={mode === 'LISTENING' && !listeningAvailable ? '当前浏览器没有可用的英语语音' : undefined}
+                onClick={() => setQuestionMode(mode)}
+                className={cn(
+                  "py-2 rounded-xl font-black transition-all border-b-4",
+                  questionMode === mode
+                    ? "bg-pink-500 text-white border-pink-700"
+                    : "bg-gray-100 text-gray-500 border-gray-200 hover:bg-gray-200",
+                  "disabled:opacity-50 disabled:cursor-not-allowed"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {questionMode === 'LISTENING' && (
+            <div className="mt-3 p-4 bg-blue-50 rounded-2xl space-y-3 text-sm font-bold text-blue-700">
+              <label className="flex items-center gap-3">
+                <span className="w-12">语速</span>
+                <input
+                  type="range"
+                  min={0.5}
+                  max={1.2}
+                  step={0.1}
+                  value={listeningSettings.rate}
+                  onChange={(e) => setListeningSettings(prev => ({ ...prev, rate: Number(e.target.value) }))}
+                  className="flex-1 accent-blue-500"
+                />
+                <span className="w-8 text-right">{listeningSettings.rate.toFixed(1)}</span>
+              </label>
+              <label className="flex items-center gap-3">
+                <span className="w-12">发音</span>
+                <select
+                  value={listeningSettings.voiceName ?? ''}
+                  onChange={(e) => setListeningSettings(prev => ({ ...prev, voiceName: e.target.value || undefined }))}
+                  className="flex-1 px-3 py-2 bg-white rounded-xl border-2 border-blue-100 focus:outline-none"
+                >
+                  <option value="">自动（英式优先）</option>
+                  {voices.filter(v => v.lang.toLowerCase().startsWith('en')).map(v => (
+                    <option key={v.name} value={v.name}>{v.name} ({v.lang})</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
         </div>
 
         <div className="grid grid-cols-5 gap-3">
-          {Array.from({ length: 10 }).map((_, i) => {
+          {Array.from({ length: levelCount }).map((_, i) => {
             const level = i + 1;
             const isUnlocked = level <= unlockedLevel;
+            const best = progress.bestAccuracy[level];
+            const stars = progress.bestStars[level] ?? 0;
             return (
               <button
                 key={level}
                 disabled={!isUnlocked || !playerId}
-                onClick={() => {
-                  setCurrentLevel(level);
-                  startLevel(level);
-                }}
+                onClick={() => startLevel(level)}
+                title={best !== undefined
+                  ? `最佳正确率 ${best.toFixed(1)}% · 最高分 ${progress.bestScore[level] ?? 0}`
+                  : undefined}
                 className={cn(
-                  "aspect-square rounded-xl flex items-center justify-center font-black text-xl transition-all border-b-4",
+                  "aspect-square rounded-xl flex flex-col items-center justify-center font-black text-xl transition-all border-b-4",
                   isUnlocked 
                     ? "bg-yellow-400 text-white border-yellow-600 hover:scale-105 active:translate-y-1" 
                     : "bg-gray-200 text-gray-400 border-gray-300 cursor-not-allowed"
                 )}
               >
                 {level}
+                {best !== undefined && renderStars(stars, "w-3 h-3", "fill-white text-white")}
+                {downloadedLevels.includes(level) && <Download className="w-3 h-3" aria-label="已下载，可离线游玩" />}
               </button>
             );
           })}
         </div>
 
+        {progress.lastPlayedAt && (
+          <div className="flex items-center justify-between text-sm font-bold text-gray-400">
+            <span>上次游戏：{new Date(progress.lastPlayedAt).toLocaleString()}</span>
+            <button
+              type="button"
+              onClick={resetProgress}
+              className="flex items-center gap-1 text-gray-400 hover:text-red-500 transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" />
+              重置进度
+            </button>
+          </div>
+        )}
+
+        <button
+          type="button"
+          disabled={!playerId || dueReviewCount === 0}
+          onClick={startReview}
+          className="w-full py-3 bg-blue-100 hover:bg-blue-200 text-blue-600 rounded-2xl font-black text-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          <BookOpen className="w-5 h-5" />
+          错题复习
+          <span className="px-2 py-0.5 bg-blue-500 text-white rounded-full text-sm">{dueReviewCount}</span>
+        </button>
+
+        <button
+          type="button"
+          disabled={!playerId}
+          onClick={openSummary}
+          className="w-full py-3 bg-purple-100 hover:bg-purple-200 text-purple-600 rounded-2xl font-black text-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          <LineChart className="w-5 h-5" />
+          学习报告
+        </button>
+
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            type="button"
+            onClick={() => {
+              setLeaderboardTrack(trackId);
+              setLeaderboardLevel(unlockedLevel);
+              setLeaderboardMode(questionMode);
+              dispatch({ type: 'OPEN_LEADERBOARD' });
+            }}
+            className="py-3 bg-yellow-100 hover:bg-yellow-200 text-yellow-700 rounded-2xl font-black text-lg transition-all flex items-center justify-center gap-2"
+          >
+            <Trophy className="w-5 h-5" />
+            排行榜
+          </button>
+          <button
+            type="button"
+            disabled={!playerId}
+            onClick={() => startChallenge({ seed: generateSeed(), track: trackId, level: unlockedLevel, mode: questionMode })}
+            title="用同一套题和好友比一比"
+            className="py-3 bg-orange-100 hover:bg-orange-200 text-orange-600 rounded-2xl font-black text-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            <Swords className="w-5 h-5" />
+            发起挑战
+          </button>
+        </div>
+
+        <button
+          type="button"
+          disabled={!playerId}
+          onClick={() => dispatch({ type: 'OPEN_ROOM' })}
+          title="和同一局域网里的朋友同时答题"
+          className="w-full py-3 bg-pink-100 hover:bg-pink-200 text-pink-600 rounded-2xl font-black text-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          <Users className="w-5 h-5" />
+          派对房间
+        </button>
+
+        {playerId && renderClassPanel()}
+
+        {customList ? (
+          <div className="flex items-center justify-between px-4 py-3 bg-green-50 rounded-2xl text-sm font-bold text-green-700">
+            <span>正在使用：{customList.name}（{customList.levels.length} 关）</span>
+            <button
+              type="button"
+              onClick={() => applyCustomList(null)}
+              className="flex items-center gap-1 text-green-600 hover:text-red-500 transition-colors"
+            >
+              <X className="w-4 h-4" />
+              停用
+            </button>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => dispatch({ type: 'OPEN_IMPORT' })}
+            className="w-full py-3 bg-green-100 hover:bg-green-200 text-green-600 rounded-2xl font-black text-lg transition-all flex items-center justify-center gap-2"
+          >
+            <Upload className="w-5 h-5" />
+            导入词库
+          </button>
+        )}
+
+        {renderOfflinePanel()}
+
+        {interrupted && (
+          <button
+            type="button"
+            onClick={resumeSession}
+            className="w-full py-4 bg-orange-400 hover:bg-orange-500 text-white rounded-2xl font-black text-xl shadow-lg border-b-4 border-orange-600 transition-all active:translate-y-1 active:border-b-0 flex items-center justify-center gap-2"
+          >
+            <RotateCcw className="w-6 h-6" />
+            继续上次闯关
+            <span className="text-sm opacity-90">
+              （{interrupted.session.sessionMode === 'REVIEW' ? '错题复习' : `第 ${interrupted.session.level} 关`} ·
+              {' '}{interrupted.session.currentIndex}/{interrupted.session.words.length}）
+            </span>
+          </button>
+        )}
+
         <button
           disabled={!playerId}
           onClick={() => startLevel(unlockedLevel)}
@@ -204,22 +985,196 @@ export default function App() {
           <Play className="w-8 h-8 fill-current" />
           开始闯关
         </button>
+
+        <div className="flex items-center justify-between text-sm font-bold text-gray-400">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={reducedMotion}
+              onChange={toggleReducedMotion}
+              className="accent-pink-500"
+            />
+            减少动画
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showFeedback}
+              onChange={() => setShowFeedback(!showFeedback)}
+              className="accent-pink-500"
+            />
+            答题后显示解析
+          </label>
+          <button
+            type="button"
+            onClick={() => dispatch({ type: 'OPEN_TEACHER' })}
+            className="flex items-center gap-1 hover:text-indigo-600 transition-colors"
+          >
+            <GraduationCap className="w-4 h-4" />
+            教师后台
+          </button>
+        </div>
       </div>
     </motion.div>
   );
 
+  const renderOfflinePanel = () => (
+    <div className="p-4 bg-teal-50 rounded-2xl space-y-2 text-sm font-bold text-teal-700">
+      {!isOnline && (
+        <p className="flex items-center gap-2 text-orange-600">
+          <WifiOff className="w-4 h-4" />
+          当前离线，只能玩已下载的关卡
+        </p>
+      )}
+      <div className="flex items-center justify-between gap-2">
+        <span>离线关卡包：已下载 {downloadedLevels.length}/{track.levels.length} 关</span>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            disabled={!playerId || !isOnline || packProgress !== null}
+            onClick={downloadLevelPacks}
+            className="flex items-center gap-1 text-teal-600 hover:text-teal-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            {packProgress ? `下载中 ${packProgress.done}/${packProgress.total}` : '下载已解锁关卡'}
+          </button>
+          {downloadedLevels.length > 0 && packProgress === null && (
+            <button
+              type="button"
+              onClick={clearLevelPacks}
+              aria-label="删除离线关卡包"
+              className="text-teal-400 hover:text-red-500 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+      {pendingRecords > 0 && (
+        <p className="flex items-center gap-2 text-teal-500">
+          <CloudUpload className="w-4 h-4" />
+          {pendingRecords} 条成绩等待联网后同步
+        </p>
+      )}
+      {rejectedRecords > 0 && (
+        <p className="flex items-center gap-2 text-red-500">
+          <AlertTriangle className="w-4 h-4" />
+          {rejectedRecords} 条成绩被服务器拒绝，未能保存
+        </p>
+      )}
+    </div>
+  );
+
+  const renderClassPanel = () => {
+    if (!joinedClass) {
+      return (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+              placeholder="班级加入码"
+              maxLength={6}
+              className="flex-1 px-4 py-3 bg-gray-50 border-4 border-gray-200 rounded-2xl focus:border-indigo-400 focus:outline-none font-bold tracking-widest"
+            />
+            <button
+              type="button"
+              disabled={joinCode.trim().length === 0}
+              onClick={joinClass}
+              className="px-5 bg-indigo-100 hover:bg-indigo-200 text-indigo-600 rounded-2xl font-black transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              加入班级
+            </button>
+          </div>
+          {classError && <p className="text-sm font-bold text-red-500">{classError}</p>}
+        </div>
+      );
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    return (
+      <div className="p-4 bg-indigo-50 rounded-2xl space-y-3 text-sm font-bold text-indigo-700">
+        <div className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <GraduationCap className="w-4 h-4" />
+            {joinedClass.name} · {joinedClass.teacherName}
+          </span>
+          <button type="button" onClick={leaveClass} className="text-indigo-400 hover:text-red-500 transition-colors">
+            退出
+          </button>
+        </div>
+        {classAssignments.length === 0 && <p className="text-indigo-400">暂时没有作业</p>}
+        {classAssignments.map(assignment => (
+          <div key={assignment.id} className="p-3 bg-white rounded-xl space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2 text-gray-700">
+                <ClipboardList className="w-4 h-4" />
+                {assignment.title}
+              </span>
+              <span className={cn(assignment.dueDate < today ? "text-red-500" : "text-gray-400")}>
+                截止 {assignment.dueDate}
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {/* Assigned levels can be played even before they are unlocked */}
+              {assignment.levels.filter(level => level <= getTrack(DEFAULT_TRACK_ID).levels.length).map(level => (
+                <button
+                  key={level}
+                  type="button"
+                  onClick={() => startLevel(level, assignment)}
+                  className="px-3 py-1 bg-indigo-500 hover:bg-indigo-600 text-white rounded-full transition-colors"
+                >
+                  第 {level} 关
+                </button>
+              ))}
+              {assignment.words && (
+                <button
+                  type="button"
+                  onClick={() => startWordAssignment(assignment)}
+                  className="px-3 py-1 bg-indigo-500 hover:bg-indigo-600 text-white rounded-full transition-colors"
+                >
+                  单词表（{assignment.words.length} 词）
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   const renderGame = () => {
     const currentWord = words[currentIndex];
     if (!currentWord) return null;
 
+    const score = userAnswers.reduce((sum, a) => sum + a.points, 0);
+    const combo = userAnswers[userAnswers.length - 1]?.combo ?? 0;
+    const timeLimit = rules.questionTimeLimitMs;
+    const timeLeftMs = timeLimit ? Math.max(0, timeLimit - (now - questionStartedAt)) : 0;
+    const answered = session.awaitingNext ? userAnswers[userAnswers.length - 1] : null;
+
     return (
       <div className="max-w-2xl w-full mx-auto">
         <div className="flex justify-between items-center mb-6 px-4">
           <div className="bg-white px-6 py-2 rounded-full shadow-md border-4 border-yellow-400 flex items-center gap-2">
             <Trophy className="w-5 h-5 text-yellow-500" />
-            <span className="font-black text-yellow-600">LEVEL {currentLevel}</span>
+            <span className="font-black text-yellow-600">
+              {sessionMode === 'REVIEW'
+                ? '错题复习'
+                : session.assignment?.words
+                  ? session.assignment.title
+                  : `${session.challengeSeed ? '挑战 ' : ''}LEVEL ${currentLevel}`}
+            </span>
           </div>
-          <div className="flex-1 mx-8 bg-gray-200 h-4 rounded-full overflow-hidden border-2 border-white shadow-inner">
+          <div
+            role="progressbar"
+            aria-label="答题进度"
+            aria-valuemin={0}
+            aria-valuemax={words.length}
+            aria-valuenow={currentIndex}
+            className="flex-1 mx-8 bg-gray-200 h-4 rounded-full overflow-hidden border-2 border-white shadow-inner"
+          >
             <motion.div 
               initial={{ width: 0 }}
               animate={{ width: `${(currentIndex / words.length) * 100}%` }}
@@ -231,54 +1186,238 @@ export default function App() {
           </div>
         </div>
 
+        <div className="flex justify-between items-center mb-4 px-6 font-black">
+          <span className="flex items-center gap-4">
+            <span className="text-gray-500">得分 <span className="text-gray-800">{score}</span></span>
+            <button
+              type="button"
+              onClick={() => dispatch({ type: 'TOGGLE_FEEDBACK' })}
+              aria-pressed={session.showFeedback}
+              className={cn(
+                "px-3 py-1 rounded-full text-xs transition-colors",
+                session.showFeedback ? "bg-green-100 text-green-600" : "bg-gray-100 text-gray-400"
+              )}
+            >
+              解析{session.showFeedback ? '开' : '关'}
+            </button>
+          </span>
+          {combo > 1 && (
+            <span className="flex items-center gap-1 text-orange-500">
+              <Flame className="w-5 h-5" />
+              {combo} 连击
+            </span>
+          )}
+        </div>
+
+        {timeLimit && (
+          <div className="mx-4 mb-4 h-2 bg-gray-200 rounded-full overflow-hidden" aria-hidden="true">
+            <div
+              className={cn("h-full transition-all", timeLeftMs < timeLimit * 0.3 ? "bg-red-500" : "bg-blue-400")}
+              style={{ width: `${(timeLeftMs / timeLimit) * 100}%` }}
+            />
+          </div>
+        )}
+
         <motion.div 
           key={currentIndex}
           initial={{ opacity: 0, x: 50 }}
           animate={{ opacity: 1, x: 0 }}
           className="bg-white rounded-[3rem] shadow-2xl p-12 border-8 border-white relative overflow-hidden"
         >
-          <div className="absolute top-0 right-0 p-8 opacity-10">
+          <div className="absolute top-0 right-0 p-8 opacity-10" aria-hidden="true">
             <Gamepad2 className="w-32 h-32" />
           </div>
 
           <div className="text-center mb-12 relative z-20">
-            <h2 className="text-6xl font-black text-gray-800 mb-6 tracking-tight">{currentWord.word}</h2>
-            <button 
-              type="button"
-              onClick={(e) => {
-                e.stopPropagation();
-                playWord(currentWord.word);
-              }}
-              className="p-4 bg-blue-100 hover:bg-blue-200 text-blue-600 rounded-full transition-all active:scale-95 group cursor-pointer"
-              title="播放发音"
-            >
-              <Volume2 className="w-8 h-8 group-hover:scale-110 transition-transform" />
-            </button>
+            {currentWord.mode === 'EN_TO_ZH' ? (
+              <>
+                <h2 ref={questionRef} tabIndex={-1} lang="en" className="text-6xl font-black text-gray-800 mb-6 tracking-tight focus:outline-none">{currentWord.word}</h2>
+                <button 
+                  type="button"
+                  aria-label="播放发音（空格键）"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    playWord(currentWord.word);
+                  }}
+                  className="p-4 bg-blue-100 hover:bg-blue-200 text-blue-600 rounded-full transition-all active:scale-95 group cursor-pointer"
+                  title="播放发音"
+                >
+                  <Volume2 className="w-8 h-8 group-hover:scale-110 transition-transform" />
+                </button>
+              </>
+            ) : currentWord.mode === 'LISTENING' ? (
+              listeningAvailable ? (
+                <>
+                  <h2 ref={questionRef} tabIndex={-1} aria-label="听音选义" className="text-6xl font-black text-gray-300 mb-6 tracking-widest focus:outline-none">? ? ?</h2>
+                  <button
+                    type="button"
+                    aria-label={`再听一遍（空格键），还可以听 ${playsLeft} 次`}
+                    onClick={replayListeningWord}
+                    disabled={playsLeft === 0}
+                    className="px-6 py-4 bg-blue-100 hover:bg-blue-200 text-blue-600 rounded-full transition-all active:scale-95 inline-flex items-center gap-3 font-black disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="再听一遍"
+                  >
+                    <Volume2 className="w-8 h-8" />
+                    还可以听 {playsLeft} 次
+                  </button>
+                </>
+              ) : (
+                // Degrade to a normal 英译中 question when no voice is available
+                <>
+                  <h2 ref={questionRef} tabIndex={-1} lang="en" className="text-6xl font-black text-gray-800 mb-4 tracking-tight focus:outline-none">{currentWord.word}</h2>
+                  <p className="text-sm font-bold text-gray-400">语音不可用，已显示单词</p>
+                </>
+              )
+            ) : (
+              // Pronouncing the word here would give the answer away
+              <h2 ref={questionRef} tabIndex={-1} className="text-5xl font-black text-gray-800 tracking-tight focus:outline-none">{currentWord.translation}</h2>
+            )}
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {currentWord.options.map((option, i) => (
+          {answered && currentWord.mode === 'SPELLING' ? null : currentWord.mode === 'SPELLING' ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (typedAnswer.trim()) handleAnswer(typedAnswer);
+              }}
+              className="flex gap-4"
+            >
+              <input
+                type="text"
+                autoFocus
+                autoComplete="off"
+                autoCapitalize="off"
+                spellCheck={false}
+                value={typedAnswer}
+                onChange={(e) => setTypedAnswer(e.target.value)}
+                placeholder="输入英文单词..."
+                aria-label="输入英文单词"
+                className="flex-1 px-6 py-5 bg-gray-50 border-4 border-gray-200 rounded-3xl focus:border-yellow-400 focus:outline-none font-bold text-2xl transition-all"
+              />
               <button
-                key={i}
-                onClick={() => handleAnswer(option)}
-                className="group relative p-6 bg-gray-50 hover:bg-yellow-50 border-4 border-gray-100 hover:border-yellow-400 rounded-3xl text-xl font-bold text-gray-700 transition-all text-left flex items-center gap-4"
+                type="submit"
+                disabled={!typedAnswer.trim()}
+                className="px-8 bg-yellow-400 hover:bg-yellow-500 text-white rounded-3xl font-black text-xl border-b-4 border-yellow-600 transition-all active:translate-y-1 active:border-b-0 disabled:opacity-50"
               >
-                <span className="w-10 h-10 flex items-center justify-center bg-gray-200 group-hover:bg-yellow-400 group-hover:text-white rounded-xl text-sm font-black transition-colors">
-                  {String.fromCharCode(65 + i)}
-                </span>
-                {option}
+                确定
               </button>
-            ))}
-          </div>
+            </form>
+          ) : (
+            <div role="group" aria-label="选项（按 A–D 或 1–4 作答）" className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {currentWord.options.map((option, i) => (
+                <button
+                  key={i}
+                  onClick={() => handleAnswer(option)}
+                  disabled={answered !== null}
+                  aria-keyshortcuts={`${String.fromCharCode(65 + i)} ${i + 1}`}
+                  lang={currentWord.mode === 'ZH_TO_EN' ? 'en' : undefined}
+                  className={cn(
+                    "group relative p-6 bg-gray-50 hover:bg-yellow-50 border-4 border-gray-100 hover:border-yellow-400 rounded-3xl text-xl font-bold text-gray-700 transition-all text-left flex items-center gap-4",
+                    answered && "hover:bg-gray-50 hover:border-gray-100 cursor-default",
+                    answered && option === currentWord.correctAnswer && "bg-green-50 border-green-400 hover:bg-green-50 hover:border-green-400 text-green-700",
+                    answered && !answered.isCorrect && option === answered.selected && "bg-red-50 border-red-400 hover:bg-red-50 hover:border-red-400 text-red-700",
+                    answered && option !== currentWord.correctAnswer && option !== answered.selected && "opacity-50"
+                  )}
+                >
+                  <span aria-hidden="true" className="w-10 h-10 flex items-center justify-center bg-gray-200 group-hover:bg-yellow-400 group-hover:text-white rounded-xl text-sm font-black transition-colors">
+                    {String.fromCharCode(65 + i)}
+                  </span>
+                  {option}
+                </button>
+              ))}
+            </div>
+          )}
+          {answered && renderFeedback(currentWord, answered)}
+          {!answered && currentWord.mode !== 'SPELLING' && (
+            <p className="hidden md:block mt-6 text-center text-xs font-bold text-gray-400" aria-hidden="true">
+              键盘：A–D 或 1–4 选择{currentWord.mode !== 'ZH_TO_EN' && ' · 空格键播放发音'}
+            </p>
+          )}
         </motion.div>
       </div>
     );
   };
 
+  // Shown under the question after each answer when the feedback step is on
+  const renderFeedback = (word: Word, answer: UserAnswer) => {
+    const isLast = currentIndex >= words.length - 1;
+    return (
+      <div className={cn(
+        "mt-6 p-6 rounded-3xl border-4 space-y-3",
+        answer.isCorrect ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"
+      )}>
+        <div className={cn("flex items-center gap-2 text-2xl font-black", answer.isCorrect ? "text-green-600" : "text-red-600")}>
+          {answer.isCorrect ? <CheckCircle2 className="w-7 h-7" /> : <XCircle className="w-7 h-7" />}
+          {answer.isCorrect ? '回答正确' : answer.timedOut ? '时间到' : '回答错误'}
+        </div>
+        {word.mode === 'SPELLING' && !answer.isCorrect && !answer.timedOut && (
+          <p className="text-xl">{renderSpellingDiff(answer.selected, word.correctAnswer)}</p>
+        )}
+        <p className="text-lg font-bold text-gray-700">
+          <span lang="en" className="font-black text-gray-800">{word.word}</span>
+          {word.partOfSpeech && <span className="ml-2 text-sm text-gray-400 italic">{word.partOfSpeech}</span>}
+          <span className="ml-3">{word.translation}</span>
+          <button
+            type="button"
+            onClick={() => playWord(word.word)}
+            aria-label="播放发音"
+            className="ml-2 align-middle text-blue-400 hover:text-blue-600"
+          >
+            <Volume2 className="w-5 h-5" />
+          </button>
+        </p>
+        {word.example && (
+          <div className="text-gray-600 font-medium">
+            <p lang="en" className="italic">{word.example}</p>
+            {word.exampleTranslation && <p className="text-sm text-gray-400">{word.exampleTranslation}</p>}
+          </div>
+        )}
+        <button
+          type="button"
+          autoFocus
+          onClick={goToNextQuestion}
+          aria-keyshortcuts="Enter"
+          className="w-full py-3 bg-yellow-400 hover:bg-yellow-500 text-white rounded-2xl font-black text-lg border-b-4 border-yellow-600 transition-all active:translate-y-1 active:border-b-0 flex items-center justify-center gap-2"
+        >
+          {isLast ? '查看结果' : '下一题'}
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+    );
+  };
+
+  const renderSpellingDiff = (typed: string, answer: string) => (
+    <span className="font-mono tracking-wider" title={`你的拼写：${typed}`}>
+      {diffLetters(typed, answer).map((d, i) => (
+        <span
+          key={i}
+          className={cn(
+            d.status === 'correct' && "text-green-600",
+            d.status === 'wrong' && "text-red-600 underline",
+            d.status === 'missing' && "text-orange-400 bg-orange-100 rounded",
+            d.status === 'extra' && "text-red-400 line-through"
+          )}
+        >
+          {d.status === 'wrong' ? d.typed : d.char}
+        </span>
+      ))}
+    </span>
+  );
+
+  const renderStars = (count: number, className: string, filledClassName = "fill-yellow-300 text-yellow-300") => (
+    <span className="flex gap-0.5" aria-label={`${count} 星`}>
+      {[1, 2, 3].map(i => (
+        <Star
+          key={i}
+          className={cn(className, i <= count ? filledClassName : "text-white/50")}
+        />
+      ))}
+    </span>
+  );
+
   const renderResult = () => {
-    const correctCount = userAnswers.filter(a => a.isCorrect).length;
-    const accuracy = (correctCount / words.length) * 100;
-    const passed = accuracy >= 90;
+    const { correctCount, accuracy, passed, score, maxCombo, stars } = scoreSession(session);
+    const isReview = sessionMode === 'REVIEW';
 
     return (
       <motion.div 
@@ -294,16 +1433,53 @@ export default function App() {
             <div className="inline-block p-6 bg-white/20 rounded-full mb-6">
               {passed ? <CheckCircle2 className="w-20 h-20" /> : <XCircle className="w-20 h-20" />}
             </div>
-            <h2 className="text-5xl font-black mb-2">{passed ? "太棒了！通关成功" : "哎呀，差一点点"}</h2>
-            <p className="text-xl opacity-90 font-bold">正确率：{accuracy.toFixed(1)}% (目标 90%)</p>
+            <h2 ref={resultHeadingRef} tabIndex={-1} className="text-5xl font-black mb-2 focus:outline-none">{isReview ? "复习完成！" : passed ? "太棒了！通关成功" : "哎呀，差一点点"}</h2>
+            {!isReview && <div className="flex justify-center my-4">{renderStars(stars, "w-10 h-10")}</div>}
+            <p className="text-xl opacity-90 font-bold">
+              正确率：{accuracy.toFixed(1)}%{!isReview && ` (目标 ${rules.passThreshold}%)`}
+            </p>
           </div>
 
           <div className="p-8 bg-gray-50">
-            <div className="grid grid-cols-3 gap-4 mb-8">
+            <AnimatePresence>
+              {unlocked.length > 0 && (
+                <motion.div
+                  initial={{ opacity: 0, y: -20, scale: 0.8 }}
+                  animate={{ opacity: 1, y: 0, scale: 1 }}
+                  exit={{ opacity: 0 }}
+                  transition={{ type: 'spring', stiffness: 300, damping: 18 }}
+                  className="mb-8 p-4 bg-yellow-50 border-4 border-yellow-300 rounded-3xl"
+                >
+                  <h3 className="text-sm font-black text-yellow-600 uppercase tracking-widest mb-3 text-center">解锁新成就！</h3>
+                  <ul className="flex flex-wrap justify-center gap-3">
+                    {unlocked.map((a, i) => (
+                      <motion.li
+                        key={a.id}
+                        initial={{ rotate: -15, scale: 0 }}
+                        animate={{ rotate: 0, scale: 1 }}
+                        transition={{ delay: 0.2 + i * 0.15, type: 'spring' }}
+                        className="flex items-center gap-2 px-4 py-2 bg-white rounded-2xl shadow-sm font-black text-gray-800"
+                      >
+                        <span className="text-2xl">{a.icon}</span>
+                        {a.title}
+                      </motion.li>
+                    ))}
+                  </ul>
+                </motion.div>
+              )}
+            </AnimatePresence>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
               <div className="bg-white p-6 rounded-3xl shadow-sm border-4 border-gray-100 text-center">
                 <Timer className="w-8 h-8 mx-auto mb-2 text-blue-500" />
                 <div className="text-sm font-bold text-gray-400 uppercase">用时</div>
-                <div className="text-2xl font-black text-gray-800">{formatDuration(Date.now() - startTime)}</div>
+                <div className="text-2xl font-black text-gray-800">{formatDuration(durationMs)}</div>
+              </div>
+              <div className="bg-white p-6 rounded-3xl shadow-sm border-4 border-gray-100 text-center">
+                <Flame className="w-8 h-8 mx-auto mb-2 text-orange-500" />
+                <div className="text-sm font-bold text-gray-400 uppercase">得分</div>
+                <div className="text-2xl font-black text-gray-800">{score}</div>
+                <div className="text-xs font-bold text-gray-400">最高 {maxCombo} 连击</div>
               </div>
               <div className="bg-white p-6 rounded-3xl shadow-sm border-4 border-gray-100 text-center">
                 <BarChart3 className="w-8 h-8 mx-auto mb-2 text-purple-500" />
@@ -312,11 +1488,41 @@ export default function App() {
               </div>
               <div className="bg-white p-6 rounded-3xl shadow-sm border-4 border-gray-100 text-center">
                 <Trophy className="w-8 h-8 mx-auto mb-2 text-yellow-500" />
-                <div className="text-sm font-bold text-gray-400 uppercase">当前关卡</div>
-                <div className="text-2xl font-black text-gray-800">{currentLevel}</div>
+                <div className="text-sm font-bold text-gray-400 uppercase">{isReview ? "模式" : "当前关卡"}</div>
+                <div className="text-2xl font-black text-gray-800">{isReview ? "复习" : currentLevel}</div>
               </div>
             </div>
 
+            {!isReview && !session.assignment?.words && (
+              <div className="mb-8 rounded-3xl border-4 border-orange-100 bg-white p-4 space-y-2">
+                <div className="flex items-center justify-between px-2">
+                  <h3 className="flex items-center gap-2 text-sm font-black text-orange-500 uppercase tracking-widest">
+                    <Swords className="w-4 h-4" />
+                    {session.challengeSeed ? '本次挑战排名' : '和好友比一比'}
+                  </h3>
+                  <button
+                    type="button"
+                    onClick={shareChallenge}
+                    className="flex items-center gap-1 px-4 py-2 bg-orange-100 hover:bg-orange-200 text-orange-600 rounded-full font-black text-sm transition-colors"
+                  >
+                    <Share2 className="w-4 h-4" />
+                    {session.challengeSeed ? '分享挑战' : '用这关发起挑战'}
+                  </button>
+                </div>
+                <p role="status" className="px-2 text-sm font-bold text-green-600">{shareStatus}</p>
+                {session.challengeSeed && (
+                  <Leaderboard
+                    track={session.trackId}
+                    level={currentLevel}
+                    mode={session.questionMode}
+                    challengeSeed={challengeKey(session.challengeSeed, session.challengeSource)}
+                    playerId={playerId.trim()}
+                    refreshKey={leaderboardVersion}
+                  />
+                )}
+              </div>
+            )}
+
             <div className="max-h-[400px] overflow-y-auto rounded-3xl border-4 border-gray-100 bg-white p-4">
               <table className="w-full">
                 <thead className="sticky top-0 bg-white border-b-2 border-gray-100">
@@ -328,7 +1534,7 @@ export default function App() {
                 </thead>
                 <tbody className="divide-y divide-gray-50">
                   {userAnswers.map((ans, i) => {
-                    const word = words.find(w => w.id === ans.wordId);
+                    const word = words[i];
                     return (
                       <tr key={i} className={cn(
                         "transition-colors",
@@ -343,10 +1549,12 @@ export default function App() {
                           </div>
                         </td>
                         <td className={cn("p-4 font-bold", ans.isCorrect ? "text-green-600" : "text-red-600")}>
-                          {ans.selected}
+                          {word?.mode === 'SPELLING' && !ans.isCorrect
+                            ? renderSpellingDiff(ans.selected, word.correctAnswer)
+                            : ans.timedOut ? '超时' : ans.selected}
                         </td>
                         <td className="p-4 font-bold text-gray-500">
-                          {word?.translation}
+                          {word && MEANING_MODES.includes(word.mode) ? word.translation : word?.word}
                         </td>
                       </tr>
                     );
@@ -357,25 +1565,34 @@ export default function App() {
 
             <div className="mt-8 flex gap-4">
               <button
-                onClick={() => setGameState('LOBBY')}
+                onClick={() => dispatch({ type: 'BACK_TO_LOBBY' })}
+                aria-keyshortcuts={isReview ? 'Enter' : undefined}
                 className="flex-1 py-4 bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-2xl font-black text-xl transition-all flex items-center justify-center gap-2"
               >
                 <ArrowLeft className="w-6 h-6" />
                 返回大厅
               </button>
               <button
-                onClick={() => startLevel(currentLevel)}
-                className="flex-1 py-4 bg-yellow-400 hover:bg-yellow-500 text-white rounded-2xl font-black text-xl shadow-lg border-b-4 border-yellow-600 transition-all active:translate-y-1 active:border-b-0 flex items-center justify-center gap-2"
+                onClick={openSummary}
+                className="flex-1 py-4 bg-purple-100 hover:bg-purple-200 text-purple-600 rounded-2xl font-black text-xl transition-all flex items-center justify-center gap-2"
               >
-                <RotateCcw className="w-6 h-6" />
-                再试一次
+                <LineChart className="w-6 h-6" />
+                学习报告
               </button>
-              {passed && currentLevel < 10 && (
+              {!isReview && (
                 <button
-                  onClick={() => {
-                    setCurrentLevel(prev => prev + 1);
-                    startLevel(currentLevel + 1);
-                  }}
+                  onClick={retryLevel}
+                  aria-keyshortcuts={canStartNextLevel() ? undefined : 'Enter'}
+                  className="flex-1 py-4 bg-yellow-400 hover:bg-yellow-500 text-white rounded-2xl font-black text-xl shadow-lg border-b-4 border-yellow-600 transition-all active:translate-y-1 active:border-b-0 flex items-center justify-center gap-2"
+                >
+                  <RotateCcw className="w-6 h-6" />
+                  再试一次
+                </button>
+              )}
+              {canStartNextLevel() && (
+                <button
+                  onClick={startNextLevel}
+                  aria-keyshortcuts="Enter"
                   className="flex-1 py-4 bg-pink-500 hover:bg-pink-600 text-white rounded-2xl font-black text-xl shadow-lg border-b-4 border-pink-700 transition-all active:translate-y-1 active:border-b-0 flex items-center justify-center gap-2"
                 >
                   下一关
@@ -389,33 +1606,317 @@ export default function App() {
     );
   };
 
-  return (
-    <div className="min-h-screen bg-[#F0F4F8] p-4 md:p-8 font-sans selection:bg-yellow-200">
-      {/* Background patterns */}
-      <div className="fixed inset-0 pointer-events-none overflow-hidden opacity-20">
-        <div className="absolute top-[-10%] left-[-10%] w-[40%] h-[40%] bg-yellow-300 rounded-full blur-[120px]" />
-        <div className="absolute bottom-[-10%] right-[-10%] w-[40%] h-[40%] bg-pink-300 rounded-full blur-[120px]" />
-        <div className="absolute top-[20%] right-[10%] w-[20%] h-[20%] bg-blue-300 rounded-full blur-[100px]" />
+  const renderLeaderboard = () => (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-2xl w-full mx-auto bg-white rounded-[3rem] shadow-2xl border-8 border-white p-8 space-y-6"
+    >
+      <div className="text-center">
+        <div className="inline-block p-4 bg-yellow-100 rounded-full mb-4">
+          <Trophy className="w-10 h-10 text-yellow-600" />
+        </div>
+        <h2 className="text-3xl font-black text-gray-800">排行榜</h2>
+        <p className="text-gray-400 font-bold">每位玩家的最好成绩，先比正确率，再比用时</p>
       </div>
 
-      <main className="relative z-10 flex items-center justify-center min-h-[calc(100vh-4rem)]">
-        {isLoading ? (
-          <div className="text-center">
-            <motion.div 
-              animate={{ rotate: 360 }}
-              transition={{ repeat: Infinity, duration: 1, ease: "linear" }}
-              className="w-20 h-20 border-8 border-yellow-400 border-t-transparent rounded-full mx-auto mb-4"
-            />
-            <p className="text-2xl font-black text-yellow-600 animate-pulse">正在加载关卡...</p>
+      <div className="grid grid-cols-3 gap-4 text-sm font-bold text-gray-600">
+        <label className="space-y-2">
+          <span className="block uppercase tracking-widest">词库</span>
+          <select
+            value={leaderboardTrack}
+            onChange={(e) => {
+              const next = e.target.value as TrackId;
+              setLeaderboardTrack(next);
+              setLeaderboardLevel(level => Math.min(level, TRACKS[next].levels.length));
+            }}
+            className="w-full px-3 py-2 bg-gray-50 rounded-xl border-4 border-gray-200 focus:outline-none"
+          >
+            {Object.values(TRACKS).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+        </label>
+        <label className="space-y-2">
+          <span className="block uppercase tracking-widest">关卡</span>
+          <select
+            value={leaderboardLevel}
+            onChange={(e) => setLeaderboardLevel(Number(e.target.value))}
+            className="w-full px-3 py-2 bg-gray-50 rounded-xl border-4 border-gray-200 focus:outline-none"
+          >
+            {Array.from({ length: TRACKS[leaderboardTrack].levels.length }, (_, i) => i + 1).map(level => (
+              <option key={level} value={level}>第 {level} 关</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-2">
+          <span className="block uppercase tracking-widest">题型</span>
+          <select
+            value={leaderboardMode}
+            onChange={(e) => setLeaderboardMode(e.target.value as QuestionMode)}
+            className="w-full px-3 py-2 bg-gray-50 rounded-xl border-4 border-gray-200 focus:outline-none"
+          >
+            {QUESTION_MODES.map(({ mode, label }) => <option key={mode} value={mode}>{label}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="rounded-3xl border-4 border-gray-100 p-2">
+        <Leaderboard
+          track={leaderboardTrack}
+          level={leaderboardLevel}
+          mode={leaderboardMode}
+          playerId={playerId.trim()}
+          refreshKey={leaderboardVersion}
+        />
+      </div>
+
+      <button
+        onClick={() => dispatch({ type: 'BACK_TO_LOBBY' })}
+        className="w-full py-4 bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-2xl font-black text-xl transition-all flex items-center justify-center gap-2"
+      >
+        <ArrowLeft className="w-6 h-6" />
+        返回大厅
+      </button>
+    </motion.div>
+  );
+
+  const renderSummary = () => (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-4xl w-full mx-auto"
+    >
+      <div className="bg-white rounded-[3rem] shadow-2xl overflow-hidden border-8 border-white">
+        <div className="p-10 text-center text-white bg-purple-500">
+          <div className="inline-block p-5 bg-white/20 rounded-full mb-4">
+            <LineChart className="w-14 h-14" />
+          </div>
+          <h2 className="text-4xl font-black mb-2">学习报告</h2>
+          <p className="text-lg opacity-90 font-bold">{playerId} · 共 {summary.totalSessions} 次闯关</p>
+        </div>
+
+        <div className="p-8 bg-gray-50 space-y-8">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="bg-white p-6 rounded-3xl shadow-sm border-4 border-gray-100 text-center">
+              <Timer className="w-8 h-8 mx-auto mb-2 text-blue-500" />
+              <div className="text-sm font-bold text-gray-400 uppercase">总用时</div>
+              <div className="text-2xl font-black text-gray-800">{formatDuration(summary.totalDurationMs)}</div>
+            </div>
+            <div className="bg-white p-6 rounded-3xl shadow-sm border-4 border-gray-100 text-center">
+              <Star className="w-8 h-8 mx-auto mb-2 text-green-500" />
+              <div className="text-sm font-bold text-gray-400 uppercase">已掌握</div>
+              <div className="text-2xl font-black text-gray-800">{summary.masteredWords.length}</div>
+            </div>
+            <div className="bg-white p-6 rounded-3xl shadow-sm border-4 border-gray-100 text-center">
+              <AlertTriangle className="w-8 h-8 mx-auto mb-2 text-red-500" />
+              <div className="text-sm font-bold text-gray-400 uppercase">待加强</div>
+              <div className="text-2xl font-black text-gray-800">{summary.weakWords.length}</div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-3xl border-4 border-gray-100 p-6">
+            <h3 className="text-sm font-black text-gray-400 uppercase tracking-widest mb-4">最近 {summary.trend.length} 次正确率</h3>
+            <AccuracyTrendChart points={summary.trend} passThreshold={getCurriculumLevel(track, 1).rules.passThreshold} />
+          </div>
+
+          <div className="bg-white rounded-3xl border-4 border-gray-100 p-4">
+            <table className="w-full">
+              <thead className="border-b-2 border-gray-100">
+                <tr className="text-left text-gray-400 text-xs font-black uppercase tracking-widest">
+                  <th className="p-4">关卡</th>
+                  <th className="p-4">题型</th>
+                  <th className="p-4">最佳正确率</th>
+                  <th className="p-4">挑战次数</th>
+                  <th className="p-4">累计用时</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {summary.levels.map(level => (
+                  <tr key={`${level.track}:${level.level}:${level.mode}`}>
+                    <td className="p-4 font-black text-gray-800">{getTrack(level.track).name} 第 {level.level} 关</td>
+                    <td className="p-4 font-bold text-gray-500">
+                      {QUESTION_MODES.find(m => m.mode === level.mode)?.label}
+                    </td>
+                    <td className={cn("p-4 font-bold", level.bestAccuracy >= getCurriculumLevel(getTrack(level.track), level.level).rules.passThreshold ? "text-green-600" : "text-red-600")}>
+                      {level.bestAccuracy.toFixed(1)}%
+                    </td>
+                    <td className="p-4 font-bold text-gray-500">{level.attempts}</td>
+                    <td className="p-4 font-bold text-gray-500">{formatDuration(level.totalDurationMs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {summary.weakWords.length > 0 && (
+            <div className="bg-white rounded-3xl border-4 border-gray-100 p-6">
+              <h3 className="text-sm font-black text-gray-400 uppercase tracking-widest mb-4">待加强的单词</h3>
+              <div className="flex flex-wrap gap-2">
+                {summary.weakWords.slice(0, 30).map(stat => (
+                  <span
+                    key={stat.word}
+                    title={`${stat.translation} · ${stat.correct}/${stat.seen}`}
+                    className="px-3 py-1 bg-red-50 text-red-600 rounded-full font-bold text-sm"
+                  >
+                    {stat.word}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {hardest.length > 0 && (
+            <div className="bg-white rounded-3xl border-4 border-gray-100 p-4 overflow-x-auto">
+              <h3 className="text-sm font-black text-gray-400 uppercase tracking-widest m-4">最难单词（所有关卡）</h3>
+              <table className="w-full">
+                <thead className="border-b-2 border-gray-100">
+                  <tr className="text-left text-gray-400 text-xs font-black uppercase tracking-widest">
+                    <th className="p-4">单词</th>
+                    <th className="p-4">答错次数</th>
+                    <th className="p-4">正确率</th>
+                    <th className="p-4">平均用时</th>
+                    <th className="p-4">出现关卡</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {hardest.map(m => (
+                    <tr key={m.wordId}>
+                      <td className="p-4">
+                        <div className="font-black text-gray-800">{m.word}</div>
+                        <div className="text-sm font-bold text-gray-400">{m.translation}</div>
+                      </td>
+                      <td className="p-4 font-bold text-red-600">{m.seen - m.correct}</td>
+                      <td className="p-4 font-bold text-gray-500">{(correctRate(m) * 100).toFixed(0)}%</td>
+                      <td className="p-4 font-bold text-gray-500">{(averageResponseMs(m) / 1000).toFixed(1)} 秒</td>
+                      <td className="p-4 font-bold text-gray-500">{m.levels.length > 0 ? m.levels.join('、') : '复习'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <button
+            onClick={() => dispatch({ type: 'BACK_TO_LOBBY' })}
+            className="w-full py-4 bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-2xl font-black text-xl transition-all flex items-center justify-center gap-2"
+          >
+            <ArrowLeft className="w-6 h-6" />
+            返回大厅
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+
+  return (
+    // "user" follows the OS setting; the lobby checkbox forces it on
+    <MotionConfig reducedMotion={reducedMotion ? 'always' : 'user'}>
+      <div className="min-h-screen bg-[#F0F4F8] p-4 md:p-8 font-sans selection:bg-yellow-200">
+        <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+
+        {/* Background patterns */}
+        <div className="fixed inset-0 pointer-events-none overflow-hidden opacity-20">
+          <div className="absolute top-[-10%] left-[-10%] w-[40%] h-[40%] bg-yellow-300 rounded-full blur-[120px]" />
+          <div className="absolute bottom-[-10%] right-[-10%] w-[40%] h-[40%] bg-pink-300 rounded-full blur-[120px]" />
+          <div className="absolute top-[20%] right-[10%] w-[20%] h-[20%] bg-blue-300 rounded-full blur-[100px]" />
+        </div>
+
+        {loadError && !isLoading && gameState !== 'PLAYING' && (
+          <div
+            role="alert"
+            className="fixed top-4 left-1/2 -translate-x-1/2 z-20 w-[calc(100%-2rem)] max-w-md p-4 bg-white border-4 border-red-200 rounded-2xl shadow-xl flex items-center gap-3"
+          >
+            <AlertTriangle className="w-6 h-6 shrink-0 text-red-500" />
+            <p className="flex-1 text-sm font-bold text-gray-700">{loadError.message}</p>
+            <button
+              type="button"
+              onClick={loadError.retry}
+              className="px-3 py-2 bg-red-500 hover:bg-red-600 text-white rounded-xl font-black text-sm transition-colors"
+            >
+              重试
+            </button>
+            <button
+              type="button"
+              onClick={() => setLoadError(null)}
+              aria-label="关闭"
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
           </div>
-        ) : (
-          <>
-            {gameState === 'LOBBY' && renderLobby()}
-            {gameState === 'PLAYING' && renderGame()}
-            {gameState === 'RESULT' && renderResult()}
-          </>
         )}
-      </main>
-    </div>
+
+        {skippedRows && !isLoading && (
+          <div
+            role="status"
+            className="fixed bottom-4 left-1/2 -translate-x-1/2 z-20 w-[calc(100%-2rem)] max-w-md p-4 bg-white border-4 border-amber-200 rounded-2xl shadow-xl flex items-start gap-3"
+          >
+            <AlertTriangle className="w-6 h-6 shrink-0 text-amber-500" />
+            <div className="flex-1 min-w-0 text-sm font-bold text-gray-700">
+              <p>工作表「{skippedRows.sheet}」有 {skippedRows.errors.length} 行无效，已跳过：</p>
+              <ul className="mt-1 max-h-24 overflow-y-auto text-amber-700 space-y-0.5">
+                {skippedRows.errors.map((e, i) => (
+                  <li key={i}>第 {e.row} 行：{e.reason}</li>
+                ))}
+              </ul>
+            </div>
+            <button
+              type="button"
+              onClick={() => setSkippedRows(null)}
+              aria-label="关闭"
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+
+        <main className="relative z-10 flex items-center justify-center min-h-[calc(100vh-4rem)]">
+          {isLoading ? (
+            <div className="text-center">
+              <motion.div 
+                animate={{ rotate: 360 }}
+                transition={{ repeat: Infinity, duration: 1, ease: "linear" }}
+                className="w-20 h-20 border-8 border-yellow-400 border-t-transparent rounded-full mx-auto mb-4"
+              />
+              <p className="text-2xl font-black text-yellow-600 animate-pulse motion-reduce:animate-none">正在加载关卡...</p>
+            </div>
+          ) : (
+            <>
+              {gameState === 'LOBBY' && renderLobby()}
+              {gameState === 'PLAYING' && renderGame()}
+              {gameState === 'RESULT' && renderResult()}
+              {gameState === 'SUMMARY' && renderSummary()}
+              {gameState === 'LEADERBOARD' && renderLeaderboard()}
+              {gameState === 'ROOM' && (
+                <LiveRoom
+                  playerId={playerId.trim()}
+                  settings={{ track: trackId, level: unlockedLevel, mode: roomMode, questionTimeMs: ROOM_QUESTION_TIME_MS }}
+                  loadQuestions={loadRoomQuestions}
+                  onBack={() => dispatch({ type: 'BACK_TO_LOBBY' })}
+                />
+              )}
+              {gameState === 'PROFILE' && (
+                <ProfilePage
+                  profile={profile}
+                  masteredWords={masteredCount()}
+                  onSave={saveProfile}
+                  onBack={() => dispatch({ type: 'BACK_TO_LOBBY' })}
+                />
+              )}
+              {gameState === 'IMPORT' && (
+                <WordImport
+                  maxLevels={track.levels.length}
+                  onImport={applyCustomList}
+                  onCancel={() => dispatch({ type: 'BACK_TO_LOBBY' })}
+                />
+              )}
+              {gameState === 'TEACHER' && (
+                <TeacherDashboard maxLevels={getTrack(DEFAULT_TRACK_ID).levels.length} onBack={() => dispatch({ type: 'BACK_TO_LOBBY' })} />
+              )}
+            </>
+          )}
+        </main>
+      </div>
+    </MotionConfig>
   );
 }
@@ -0,0 +1,53 @@
+import React from 'react';
+import { TrendPoint } from '../services/summaryService';
+
+interface Props {
+  points: TrendPoint[];
+  passThreshold?: number;
+}
+
+const WIDTH = 560;
+const HEIGHT = 200;
+const PADDING = 28;
+
+// Plain SVG so the dashboard renders offline without any chart service
+export default function AccuracyTrendChart({ points, passThreshold = 90 }: Props) {
+  if (points.length === 0) {
+    return <div className="h-[200px] flex items-center justify-center text-gray-400 font-bold">还没有闯关记录</div>;
+  }
+
+  const innerWidth = WIDTH - PADDING * 2;
+  const innerHeight = HEIGHT - PADDING * 2;
+  const x = (i: number) => PADDING + (points.length === 1 ? innerWidth / 2 : (i / (points.length - 1)) * innerWidth);
+  const y = (accuracy: number) => PADDING + innerHeight - (accuracy / 100) * innerHeight;
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(p.accuracy)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="最近闯关正确率趋势">
+      {[0, 50, 100].map(tick => (
+        <g key={tick}>
+          <line x1={PADDING} x2={WIDTH - PADDING} y1={y(tick)} y2={y(tick)} className="stroke-gray-100" strokeWidth={2} />
+          <text x={PADDING - 6} y={y(tick) + 4} textAnchor="end" className="fill-gray-400 text-[10px] font-bold">{tick}</text>
+        </g>
+      ))}
+      <line
+        x1={PADDING}
+        x2={WIDTH - PADDING}
+        y1={y(passThreshold)}
+        y2={y(passThreshold)}
+        className="stroke-green-400"
+        strokeWidth={2}
+        strokeDasharray="6 6"
+      />
+      <path d={path} fill="none" className="stroke-pink-500" strokeWidth={4} strokeLinejoin="round" strokeLinecap="round" />
+      {points.map((p, i) => (
+        <g key={i}>
+          <circle cx={x(i)} cy={y(p.accuracy)} r={6} className={p.accuracy >= passThreshold ? 'fill-green-500' : 'fill-yellow-400'}>
+            <title>{`${p.label} · 第${p.level}关 · ${p.accuracy.toFixed(1)}%`}</title>
+          </circle>
+          <text x={x(i)} y={HEIGHT - 6} textAnchor="middle" className="fill-gray-400 text-[10px] font-bold">L{p.level}</text>
+        </g>
+      ))}
+    </svg>
+  );
+}
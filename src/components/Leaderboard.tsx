@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { Trophy } from 'lucide-react';
+import { cn, formatDuration } from '../utils';
+import { LeaderboardEntry, QuestionMode, TrackId } from '../types';
+import { recordService } from '../services/recordService';
+
+interface Props {
+  track: TrackId;
+  level: number;
+  mode: QuestionMode;
+  // Only rank attempts at this challenge
+  challengeSeed?: string;
+  // Highlighted row
+  playerId?: string;
+  // Bump to fetch again, e.g. once the player's own record is saved
+  refreshKey?: number;
+}
+
+export default function Leaderboard({ track, level, mode, challengeSeed, playerId, refreshKey = 0 }: Props) {
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setError('');
+    recordService.fetchLeaderboard(level, mode, 20, challengeSeed, track)
+      .then(result => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch(e => {
+        if (!cancelled) setError(`排行榜暂时不可用：${(e as Error).message}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [track, level, mode, challengeSeed, refreshKey]);
+
+  if (error) return <p className="p-4 text-center text-sm font-bold text-gray-400">{error}</p>;
+  if (!entries) return <p className="p-4 text-center text-sm font-bold text-gray-400">加载中...</p>;
+  if (entries.length === 0) return <p className="p-4 text-center text-sm font-bold text-gray-400">还没有人上榜，快来抢第一！</p>;
+
+  return (
+    <table className="w-full text-left">
+      <thead className="border-b-2 border-gray-100 text-xs font-black text-gray-400 uppercase tracking-widest">
+        <tr>
+          <th className="p-3">名次</th>
+          <th className="p-3">玩家</th>
+          <th className="p-3">正确率</th>
+          <th className="p-3">用时</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-50 font-bold">
+        {entries.map(entry => (
+          <tr
+            key={entry.playerId}
+            className={cn(entry.playerId === playerId && "bg-yellow-50")}
+            aria-current={entry.playerId === playerId ? 'true' : undefined}
+          >
+            <td className="p-3 text-gray-800">
+              <span className="flex items-center gap-1">
+                {entry.rank <= 3 && <Trophy className={cn("w-4 h-4", ["text-yellow-500", "text-gray-400", "text-orange-400"][entry.rank - 1])} />}
+                {entry.rank}
+              </span>
+            </td>
+            <td className="p-3 text-gray-800">{entry.playerId}</td>
+            <td className="p-3 text-gray-500">{entry.accuracy.toFixed(1)}%</td>
+            <td className="p-3 text-gray-500">{formatDuration(entry.durationMs)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
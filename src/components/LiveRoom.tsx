@@ -0,0 +1,371 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { ArrowLeft, CheckCircle2, Crown, Play, Users, XCircle } from 'lucide-react';
+import { cn } from '../utils';
+import { RoomQuestion, RoomServerMessage, RoomSettings, RoomStanding, Word } from '../types';
+import { getTrack } from '../game/curriculum';
+import { RoomConnection } from '../services/roomService';
+
+const MODE_LABELS: Record<RoomSettings['mode'], string> = {
+  EN_TO_ZH: '英译中',
+  ZH_TO_EN: '中译英',
+  SPELLING: '拼写',
+  LISTENING: '听力'
+};
+
+interface Props {
+  playerId: string;
+  // What a room opened from here plays
+  settings: RoomSettings;
+  // Questions for a new room, prepared by the host's device
+  loadQuestions: () => Promise<Word[]>;
+  onBack: () => void;
+}
+
+type RoomInfo = Extract<RoomServerMessage, { type: 'room' }>;
+type Reveal = Extract<RoomServerMessage, { type: 'reveal' }>;
+
+interface LiveQuestion {
+  index: number;
+  total: number;
+  question: RoomQuestion;
+  timeLimitMs: number;
+  deadline: number;
+}
+
+export default function LiveRoom({ playerId, settings, loadQuestions, onBack }: Props) {
+  const connection = useRef<RoomConnection | null>(null);
+  const [role, setRole] = useState<'host' | 'player' | null>(null);
+  const [joinCode, setJoinCode] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [room, setRoom] = useState<RoomInfo | null>(null);
+  const [question, setQuestion] = useState<LiveQuestion | null>(null);
+  const [answered, setAnswered] = useState(0);
+  const [myAnswer, setMyAnswer] = useState<string | null>(null);
+  const [typed, setTyped] = useState('');
+  const [reveal, setReveal] = useState<Reveal | null>(null);
+  const [finalRanking, setFinalRanking] = useState<RoomStanding[] | null>(null);
+  const [error, setError] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => () => connection.current?.close(), []);
+
+  useEffect(() => {
+    if (!question || reveal) return;
+    const ticker = setInterval(() => setNow(Date.now()), 200);
+    return () => clearInterval(ticker);
+  }, [question, reveal]);
+
+  const handleMessage = (message: RoomServerMessage) => {
+    switch (message.type) {
+      case 'room':
+        setRoom(message);
+        return;
+      case 'question':
+        setQuestion({ ...message, deadline: Date.now() + message.timeLimitMs });
+        setError('');
+        setAnswered(0);
+        setMyAnswer(null);
+        setTyped('');
+        setReveal(null);
+        return;
+      case 'answered':
+        setAnswered(message.answered);
+        return;
+      case 'reveal':
+        setReveal(message);
+        return;
+      case 'finished':
+        setFinalRanking(message.ranking);
+        return;
+      case 'closed':
+        setError(`房间已关闭：${message.reason}`);
+        return;
+      case 'error':
+        setError(`出错了：${message.message}`);
+        setIsCreating(false);
+        return;
+    }
+  };
+
+  const connect = () => {
+    connection.current?.close();
+    setError('');
+    setRoom(null);
+    const next = new RoomConnection(handleMessage, () => {
+      // Closing an old connection to open a new one is not an error
+      if (connection.current !== next) return;
+      setError(current => current || '与房间服务器的连接已断开');
+    });
+    connection.current = next;
+    return next;
+  };
+
+  const createRoom = async () => {
+    setIsCreating(true);
+    setError('');
+    try {
+      const words = await loadQuestions();
+      connect().send({ type: 'create', hostId: playerId, settings, words });
+      setRole('host');
+    } catch (e) {
+      setError(`题目加载失败：${(e as Error).message}`);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const joinRoom = () => {
+    connect().send({ type: 'join', code: joinCode.trim(), playerId });
+    setRole('player');
+  };
+
+  const submitAnswer = (selected: string) => {
+    if (!question || myAnswer !== null || reveal) return;
+    setMyAnswer(selected);
+    connection.current?.send({ type: 'answer', index: question.index, selected });
+  };
+
+  const leave = () => {
+    connection.current?.close();
+    onBack();
+  };
+
+  const renderRanking = (ranking: RoomStanding[]) => (
+    <ol className="divide-y divide-gray-50 font-bold">
+      {ranking.map(s => (
+        <motion.li
+          layout
+          key={s.playerId}
+          className={cn('flex items-center gap-3 p-3', s.playerId === playerId && 'bg-yellow-50', !s.connected && 'opacity-50')}
+          aria-current={s.playerId === playerId ? 'true' : undefined}
+        >
+          <span className="w-8 text-center font-black text-gray-400">
+            {s.rank === 1 ? <Crown className="w-5 h-5 mx-auto text-yellow-500" aria-label="第 1 名" /> : s.rank}
+          </span>
+          <span className="flex-1 text-gray-800 truncate">{s.playerId}</span>
+          {reveal && s.lastPoints > 0 && <span className="text-sm text-green-500">+{s.lastPoints}</span>}
+          <span className="w-16 text-right font-black text-gray-800">{s.score}</span>
+        </motion.li>
+      ))}
+    </ol>
+  );
+
+  const renderSetup = () => (
+    <div className="grid md:grid-cols-2 gap-6">
+      <div className="p-6 bg-yellow-50 rounded-3xl space-y-4">
+        <h3 className="text-xl font-black text-yellow-700">开房间</h3>
+        <p className="text-sm font-bold text-gray-500">
+          {getTrack(settings.track).name} 第 {settings.level} 关 · {MODE_LABELS[settings.mode]} · 每题 {settings.questionTimeMs / 1000} 秒
+        </p>
+        <button
+          type="button"
+          disabled={isCreating}
+          onClick={createRoom}
+          className="w-full py-3 bg-yellow-400 hover:bg-yellow-500 text-white rounded-2xl font-black text-lg border-b-4 border-yellow-600 transition-all disabled:opacity-50"
+        >
+          {isCreating ? '正在准备题目...' : '创建房间'}
+        </button>
+      </div>
+      <div className="p-6 bg-blue-50 rounded-3xl space-y-4">
+        <h3 className="text-xl font-black text-blue-700">加入房间</h3>
+        <input
+          type="text"
+          inputMode="numeric"
+          value={joinCode}
+          onChange={(e) => setJoinCode(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && joinCode.trim() && joinRoom()}
+          placeholder="4 位房间号"
+          aria-label="房间号"
+          className="w-full px-4 py-3 bg-white border-4 border-blue-100 rounded-2xl focus:border-blue-400 focus:outline-none font-black text-lg tracking-widest text-center"
+        />
+        <button
+          type="button"
+          disabled={!joinCode.trim()}
+          onClick={joinRoom}
+          className="w-full py-3 bg-blue-500 hover:bg-blue-600 text-white rounded-2xl font-black text-lg border-b-4 border-blue-700 transition-all disabled:opacity-50"
+        >
+          加入
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderWaiting = (info: RoomInfo) => (
+    <div className="text-center space-y-6">
+      <div>
+        <p className="text-sm font-bold text-gray-400 uppercase tracking-widest">房间号</p>
+        <p className="text-6xl font-black text-yellow-600 tracking-[0.3em]">{info.code}</p>
+        <p className="text-sm font-bold text-gray-400 mt-2">
+          {getTrack(info.settings.track).name} 第 {info.settings.level} 关 · {MODE_LABELS[info.settings.mode]} · {info.totalQuestions} 题
+        </p>
+      </div>
+      <div className="flex flex-wrap justify-center gap-2">
+        <AnimatePresence>
+          {info.players.map(p => (
+            <motion.span
+              key={p.playerId}
+              initial={{ scale: 0 }}
+              animate={{ scale: 1 }}
+              exit={{ scale: 0 }}
+              className="px-4 py-2 bg-yellow-100 text-yellow-700 rounded-full font-black"
+            >
+              {p.playerId}
+            </motion.span>
+          ))}
+        </AnimatePresence>
+        {info.players.length === 0 && <p className="font-bold text-gray-400">等待玩家加入...</p>}
+      </div>
+      {role === 'host' ? (
+        <button
+          type="button"
+          disabled={info.players.length === 0}
+          onClick={() => connection.current?.send({ type: 'start' })}
+          className="px-10 py-4 bg-green-500 hover:bg-green-600 text-white rounded-2xl font-black text-xl border-b-4 border-green-700 transition-all disabled:opacity-50 inline-flex items-center gap-2"
+        >
+          <Play className="w-6 h-6" />
+          开始游戏（{info.players.length} 人）
+        </button>
+      ) : (
+        <p className="font-black text-gray-500 animate-pulse motion-reduce:animate-none">等待房主开始...</p>
+      )}
+    </div>
+  );
+
+  const renderQuestion = (live: LiveQuestion, info: RoomInfo) => {
+    const remaining = Math.max(0, live.deadline - now);
+    const { question: q } = live;
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between font-black text-gray-400">
+          <span>第 {live.index + 1} / {live.total} 题</span>
+          <span>{role === 'host' ? `已作答 ${answered} / ${info.players.length}` : `${Math.ceil(remaining / 1000)} 秒`}</span>
+        </div>
+        <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-yellow-400 transition-[width] duration-200"
+            style={{ width: `${(remaining / live.timeLimitMs) * 100}%` }}
+          />
+        </div>
+        <h2 className="text-5xl font-black text-center text-gray-800 py-6">{q.prompt}</h2>
+        {q.mode === 'SPELLING' ? (
+          role === 'player' && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (typed.trim()) submitAnswer(typed);
+              }}
+              className="flex gap-3"
+            >
+              <input
+                type="text"
+                value={typed}
+                disabled={myAnswer !== null}
+                onChange={(e) => setTyped(e.target.value)}
+                autoFocus
+                autoComplete="off"
+                aria-label="拼写答案"
+                className="flex-1 px-4 py-3 bg-gray-50 border-4 border-gray-200 rounded-2xl focus:border-yellow-400 focus:outline-none font-bold text-xl"
+              />
+              <button
+                type="submit"
+                disabled={myAnswer !== null}
+                className="px-6 bg-yellow-400 text-white rounded-2xl font-black border-b-4 border-yellow-600 disabled:opacity-50"
+              >
+                提交
+              </button>
+            </form>
+          )
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            {q.options.map(option => (
+              <button
+                key={option}
+                type="button"
+                disabled={role === 'host' || myAnswer !== null}
+                onClick={() => submitAnswer(option)}
+                className={cn(
+                  "p-5 rounded-2xl font-black text-xl border-b-4 transition-all",
+                  myAnswer === option
+                    ? "bg-yellow-400 text-white border-yellow-600"
+                    : "bg-gray-100 text-gray-700 border-gray-200 hover:bg-gray-200",
+                  "disabled:cursor-default"
+                )}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        )}
+        {myAnswer !== null && <p className="text-center font-bold text-gray-400">已提交，等待其他玩家...</p>}
+      </div>
+    );
+  };
+
+  const renderReveal = (result: Reveal) => (
+    <div className="space-y-6">
+      <div className="text-center">
+        <p className="text-sm font-bold text-gray-400">正确答案</p>
+        <p className="text-4xl font-black text-green-600">{result.correctAnswer}</p>
+        <p className="font-bold text-gray-500">{result.word} · {result.translation}</p>
+        {result.yourAnswer && (
+          <motion.p
+            initial={{ scale: 0.5, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className={cn("mt-4 inline-flex items-center gap-2 text-2xl font-black", result.yourAnswer.isCorrect ? "text-green-500" : "text-red-500")}
+          >
+            {result.yourAnswer.isCorrect ? <CheckCircle2 className="w-7 h-7" /> : <XCircle className="w-7 h-7" />}
+            {result.yourAnswer.isCorrect ? `+${result.yourAnswer.points}` : result.yourAnswer.selected ? '答错了' : '超时'}
+          </motion.p>
+        )}
+      </div>
+      <div className="rounded-3xl border-4 border-gray-100">{renderRanking(result.ranking)}</div>
+    </div>
+  );
+
+  const renderFinished = (ranking: RoomStanding[]) => (
+    <div className="space-y-6 text-center">
+      <h2 className="text-4xl font-black text-yellow-600">最终排名</h2>
+      {ranking[0] && (
+        <motion.p initial={{ y: -20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} className="text-2xl font-black text-gray-800">
+          🏆 {ranking[0].playerId} · {ranking[0].score} 分
+        </motion.p>
+      )}
+      <div className="rounded-3xl border-4 border-gray-100 text-left">{renderRanking(ranking)}</div>
+    </div>
+  );
+
+  const renderBody = () => {
+    if (finalRanking) return renderFinished(finalRanking);
+    // A failed join or create leaves the player on the setup screen to try again
+    if (!room) return role && !error ? <p className="text-center font-bold text-gray-400">连接中...</p> : renderSetup();
+    if (reveal) return renderReveal(reveal);
+    if (question && room.phase !== 'LOBBY') return renderQuestion(question, room);
+    return renderWaiting(room);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-3xl w-full mx-auto bg-white rounded-3xl shadow-2xl overflow-hidden border-8 border-yellow-400 p-8 space-y-6"
+    >
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={leave}
+          className="flex items-center gap-2 text-gray-500 hover:text-gray-800 font-bold transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          {room && !finalRanking ? '离开房间' : '返回大厅'}
+        </button>
+        <h2 className="flex items-center gap-2 text-3xl font-black text-yellow-600">
+          <Users className="w-7 h-7" />
+          派对房间
+        </h2>
+      </div>
+      {error && <p role="alert" className="p-3 bg-red-50 text-red-600 rounded-2xl font-bold text-sm">{error}</p>}
+      {renderBody()}
+    </motion.div>
+  );
+}
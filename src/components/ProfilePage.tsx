@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { ArrowLeft, Flame, Lock } from 'lucide-react';
+import { cn } from '../utils';
+import { PlayerProfile } from '../types';
+import { ACHIEVEMENTS } from '../game/achievements';
+import { AVATARS, MAX_NICKNAME_LENGTH, activeStreak, getAvatar } from '../game/profile';
+
+interface Props {
+  profile: PlayerProfile;
+  masteredWords: number;
+  onSave: (profile: PlayerProfile) => void;
+  onBack: () => void;
+}
+
+export default function ProfilePage({ profile, masteredWords, onSave, onBack }: Props) {
+  const [nickname, setNickname] = useState(profile.nickname);
+  const avatar = getAvatar(profile.avatar);
+  const unlockedCount = ACHIEVEMENTS.filter(a => profile.achievements[a.id]).length;
+
+  const saveNickname = () => {
+    const trimmed = nickname.trim().slice(0, MAX_NICKNAME_LENGTH);
+    if (!trimmed) {
+      setNickname(profile.nickname);
+      return;
+    }
+    if (trimmed !== profile.nickname) onSave({ ...profile, nickname: trimmed });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-3xl w-full mx-auto bg-white rounded-3xl shadow-2xl overflow-hidden border-8 border-yellow-400 p-8 space-y-8"
+    >
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={onBack}
+          className="flex items-center gap-2 text-gray-500 hover:text-gray-800 font-bold transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          返回大厅
+        </button>
+        <h2 className="text-3xl font-black text-yellow-600">个人主页</h2>
+      </div>
+
+      <div className="flex flex-col sm:flex-row items-center gap-6">
+        <div className={cn("w-28 h-28 rounded-full flex items-center justify-center text-6xl border-8 border-yellow-300", avatar.color)}>
+          <span role="img" aria-label={avatar.id}>{avatar.emoji}</span>
+        </div>
+        <div className="flex-1 w-full space-y-3">
+          <label className="block text-sm font-bold text-gray-700 uppercase tracking-widest" htmlFor="profile-nickname">昵称</label>
+          <input
+            id="profile-nickname"
+            type="text"
+            value={nickname}
+            maxLength={MAX_NICKNAME_LENGTH}
+            onChange={(e) => setNickname(e.target.value)}
+            onBlur={saveNickname}
+            onKeyDown={(e) => e.key === 'Enter' && saveNickname()}
+            className="w-full px-4 py-3 bg-gray-50 border-4 border-gray-200 rounded-2xl focus:border-yellow-400 focus:outline-none font-bold text-lg transition-all"
+          />
+          <p className="text-xs font-bold text-gray-400">游戏ID：{profile.playerId}</p>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-black text-gray-700 uppercase tracking-widest mb-3">选择头像</h3>
+        <div className="grid grid-cols-8 gap-2">
+          {AVATARS.map(a => (
+            <button
+              key={a.id}
+              type="button"
+              onClick={() => onSave({ ...profile, avatar: a.id })}
+              aria-pressed={profile.avatar === a.id}
+              className={cn(
+                "aspect-square rounded-2xl text-3xl flex items-center justify-center border-4 transition-all hover:scale-105",
+                a.color,
+                profile.avatar === a.id ? "border-yellow-400" : "border-transparent"
+              )}
+            >
+              {a.emoji}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="bg-orange-50 p-4 rounded-2xl text-center">
+          <Flame className="w-8 h-8 mx-auto mb-1 text-orange-500" />
+          <div className="text-xs font-bold text-gray-400 uppercase">连续打卡</div>
+          <div className="text-2xl font-black text-gray-800">{activeStreak(profile)} 天</div>
+        </div>
+        <div className="bg-yellow-50 p-4 rounded-2xl text-center">
+          <div className="text-3xl mb-1">🏅</div>
+          <div className="text-xs font-bold text-gray-400 uppercase">最长连续</div>
+          <div className="text-2xl font-black text-gray-800">{profile.streak.longest} 天</div>
+        </div>
+        <div className="bg-blue-50 p-4 rounded-2xl text-center">
+          <div className="text-3xl mb-1">📚</div>
+          <div className="text-xs font-bold text-gray-400 uppercase">已掌握单词</div>
+          <div className="text-2xl font-black text-gray-800">{masteredWords}</div>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-black text-gray-700 uppercase tracking-widest mb-3">
+          成就 {unlockedCount} / {ACHIEVEMENTS.length}
+        </h3>
+        <ul className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {ACHIEVEMENTS.map(a => {
+            const unlockedAt = profile.achievements[a.id];
+            return (
+              <li
+                key={a.id}
+                className={cn(
+                  "p-4 rounded-2xl border-4 flex items-start gap-3",
+                  unlockedAt ? "bg-yellow-50 border-yellow-200" : "bg-gray-50 border-gray-100 opacity-60"
+                )}
+              >
+                <span className={cn("text-3xl", !unlockedAt && "grayscale")}>{a.icon}</span>
+                <div className="min-w-0">
+                  <p className="font-black text-gray-800 flex items-center gap-1">
+                    {a.title}
+                    {!unlockedAt && <Lock className="w-3 h-3 text-gray-400" aria-label="未解锁" />}
+                  </p>
+                  <p className="text-xs font-bold text-gray-500">{a.description}</p>
+                  {unlockedAt && (
+                    <p className="text-xs font-bold text-yellow-600 mt-1">{new Date(unlockedAt).toLocaleDateString()} 解锁</p>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,290 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'motion/react';
+import { ArrowLeft, ClipboardList, Download, GraduationCap, Plus, RotateCcw } from 'lucide-react';
+import { cn } from '../utils';
+import { Assignment, ClassReport, TeacherClass } from '../types';
+import { classService, classMembershipStore } from '../services/classService';
+import { detectFormat, parseWordList, dedupeWords } from '../services/wordListImport';
+
+interface Props {
+  maxLevels: number;
+  onBack: () => void;
+}
+
+// A week from today, as YYYY-MM-DD
+function defaultDueDate(): string {
+  const date = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  return date.toISOString().slice(0, 10);
+}
+
+const INPUT_CLASS = "w-full px-3 py-2 bg-gray-50 rounded-xl border-4 border-gray-200 focus:border-indigo-400 focus:outline-none";
+
+export default function TeacherDashboard({ maxLevels, onBack }: Props) {
+  const [teacherClass, setTeacherClass] = useState<TeacherClass | null>(() => classMembershipStore.teacherClass());
+  const [className, setClassName] = useState('');
+  const [teacherName, setTeacherName] = useState('');
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [report, setReport] = useState<ClassReport | null>(null);
+  const [error, setError] = useState('');
+
+  const [title, setTitle] = useState('');
+  const [levels, setLevels] = useState<number[]>([]);
+  const [wordText, setWordText] = useState('');
+  const [dueDate, setDueDate] = useState(defaultDueDate);
+
+  const parsedWords = useMemo(() => {
+    if (!wordText.trim()) return null;
+    const result = parseWordList(wordText, detectFormat(wordText, ''));
+    return { words: dedupeWords(result.words).words, errors: result.errors };
+  }, [wordText]);
+
+  const refresh = async (current: TeacherClass) => {
+    setError('');
+    try {
+      const [nextAssignments, nextReport] = await Promise.all([
+        classService.fetchAssignments(current.classId),
+        classService.fetchReport(current)
+      ]);
+      setAssignments(nextAssignments);
+      setReport(nextReport);
+    } catch (e) {
+      setError(`无法加载班级数据：${(e as Error).message}`);
+    }
+  };
+
+  useEffect(() => {
+    if (teacherClass) refresh(teacherClass);
+  }, [teacherClass]);
+
+  const createClass = async () => {
+    setError('');
+    try {
+      const created = await classService.createClass(className.trim(), teacherName.trim());
+      classMembershipStore.saveTeacherClass(created);
+      setTeacherClass(created);
+    } catch (e) {
+      setError(`创建班级失败：${(e as Error).message}`);
+    }
+  };
+
+  const downloadCsv = async (current: TeacherClass) => {
+    setError('');
+    try {
+      const url = URL.createObjectURL(await classService.fetchReportCsv(current));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${current.name}-report.csv`;
+      link.click();
+      // Revoked on the next tick; some browsers still need the URL while the download starts
+      setTimeout(() => URL.revokeObjectURL(url));
+    } catch (e) {
+      setError(`导出 CSV 失败：${(e as Error).message}`);
+    }
+  };
+
+  const leaveClass = () => {
+    if (!window.confirm('确定要退出这个班级的教师后台吗？没有备份教师密钥将无法再管理它。')) return;
+    classMembershipStore.saveTeacherClass(null);
+    setTeacherClass(null);
+    setAssignments([]);
+    setReport(null);
+  };
+
+  const toggleLevel = (level: number) => {
+    setLevels(current => current.includes(level) ? current.filter(l => l !== level) : [...current, level].sort((a, b) => a - b));
+  };
+
+  const words = parsedWords?.words.length ? parsedWords.words : null;
+  const canAssign = Boolean(title.trim() && dueDate && (levels.length > 0 || words));
+
+  const createAssignment = async () => {
+    if (!teacherClass || !canAssign) return;
+    setError('');
+    try {
+      await classService.createAssignment(teacherClass, { title: title.trim(), levels, words, dueDate });
+      setTitle('');
+      setLevels([]);
+      setWordText('');
+      await refresh(teacherClass);
+    } catch (e) {
+      setError(`布置作业失败：${(e as Error).message}`);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-4xl w-full mx-auto bg-white rounded-[3rem] shadow-2xl border-8 border-white p-8 space-y-6"
+    >
+      <div className="text-center">
+        <div className="inline-block p-4 bg-indigo-100 rounded-full mb-4">
+          <GraduationCap className="w-10 h-10 text-indigo-600" />
+        </div>
+        <h2 className="text-3xl font-black text-gray-800">教师后台</h2>
+        {teacherClass && (
+          <p className="text-gray-400 font-bold">
+            {teacherClass.name} · {teacherClass.teacherName} · 加入码
+            <span className="ml-2 px-3 py-1 bg-indigo-500 text-white rounded-full tracking-widest">{teacherClass.joinCode}</span>
+          </p>
+        )}
+      </div>
+
+      {error && <p className="p-4 bg-red-50 text-red-600 rounded-2xl font-bold text-sm">{error}</p>}
+
+      {!teacherClass ? (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4 text-sm font-bold text-gray-600">
+            <label className="space-y-2">
+              <span className="block uppercase tracking-widest">班级名称</span>
+              <input value={className} onChange={(e) => setClassName(e.target.value)} className={INPUT_CLASS} />
+            </label>
+            <label className="space-y-2">
+              <span className="block uppercase tracking-widest">老师姓名</span>
+              <input value={teacherName} onChange={(e) => setTeacherName(e.target.value)} className={INPUT_CLASS} />
+            </label>
+          </div>
+          <button
+            onClick={createClass}
+            disabled={!className.trim() || !teacherName.trim()}
+            className="w-full py-4 bg-indigo-500 hover:bg-indigo-600 text-white rounded-2xl font-black text-xl shadow-lg border-b-4 border-indigo-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            <Plus className="w-6 h-6" />
+            创建班级
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="rounded-3xl border-4 border-gray-100 p-6 space-y-4">
+            <h3 className="text-sm font-black text-gray-400 uppercase tracking-widest flex items-center gap-2">
+              <ClipboardList className="w-4 h-4" />
+              布置作业
+            </h3>
+            <div className="grid grid-cols-2 gap-4 text-sm font-bold text-gray-600">
+              <label className="space-y-2">
+                <span className="block uppercase tracking-widest">标题</span>
+                <input value={title} onChange={(e) => setTitle(e.target.value)} className={INPUT_CLASS} />
+              </label>
+              <label className="space-y-2">
+                <span className="block uppercase tracking-widest">截止日期</span>
+                <input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} className={INPUT_CLASS} />
+              </label>
+            </div>
+            <div className="space-y-2 text-sm font-bold text-gray-600">
+              <span className="block uppercase tracking-widest">关卡</span>
+              <div className="grid grid-cols-10 gap-2">
+                {Array.from({ length: maxLevels }, (_, i) => i + 1).map(level => (
+                  <button
+                    key={level}
+                    type="button"
+                    onClick={() => toggleLevel(level)}
+                    className={cn(
+                      "py-2 rounded-xl font-black border-b-4 transition-all",
+                      levels.includes(level)
+                        ? "bg-indigo-500 text-white border-indigo-700"
+                        : "bg-gray-100 text-gray-500 border-gray-200 hover:bg-gray-200"
+                    )}
+                  >
+                    {level}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <label className="block space-y-2 text-sm font-bold text-gray-600">
+              <span className="block uppercase tracking-widest">或粘贴单词表（CSV / JSON / Anki）</span>
+              <textarea
+                value={wordText}
+                onChange={(e) => setWordText(e.target.value)}
+                placeholder={'word,translation\nabandon,放弃'}
+                rows={4}
+                className={cn(INPUT_CLASS, "font-mono")}
+              />
+            </label>
+            {parsedWords && (
+              <p className="text-sm font-bold text-gray-500">
+                有效单词 {parsedWords.words.length}
+                {parsedWords.errors.length > 0 && <span className="text-red-500">，无效行 {parsedWords.errors.length}</span>}
+              </p>
+            )}
+            <button
+              onClick={createAssignment}
+              disabled={!canAssign}
+              className="w-full py-3 bg-indigo-100 hover:bg-indigo-200 text-indigo-600 rounded-2xl font-black text-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              <Plus className="w-5 h-5" />
+              发布作业
+            </button>
+          </div>
+
+          <div className="rounded-3xl border-4 border-gray-100 p-4 overflow-x-auto">
+            <div className="flex items-center justify-between mb-2 px-2">
+              <h3 className="text-sm font-black text-gray-400 uppercase tracking-widest">
+                学生完成情况（{report?.students.length ?? 0} 人）
+              </h3>
+              <div className="flex gap-4 text-sm font-bold">
+                <button onClick={() => refresh(teacherClass)} className="flex items-center gap-1 text-gray-400 hover:text-indigo-600">
+                  <RotateCcw className="w-4 h-4" />
+                  刷新
+                </button>
+                <button onClick={() => downloadCsv(teacherClass)} className="flex items-center gap-1 text-gray-400 hover:text-indigo-600">
+                  <Download className="w-4 h-4" />
+                  导出 CSV
+                </button>
+              </div>
+            </div>
+            <table className="w-full text-left text-sm">
+              <thead className="border-b-2 border-gray-100 text-xs font-black text-gray-400 uppercase tracking-widest">
+                <tr>
+                  <th className="p-3">学生</th>
+                  <th className="p-3">正确率</th>
+                  {assignments.map(a => (
+                    <th key={a.id} className="p-3" title={a.words ? `${a.words.length} 个单词` : `第 ${a.levels.join('、')} 关`}>
+                      {a.title}
+                      <span className="block normal-case tracking-normal">截止 {a.dueDate}</span>
+                    </th>
+                  ))}
+                  <th className="p-3">常错单词</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50 font-bold">
+                {report?.students.map(student => (
+                  <tr key={student.playerId}>
+                    <td className="p-3 text-gray-800">{student.playerId}</td>
+                    <td className="p-3 text-gray-500">{student.accuracy === null ? '—' : `${student.accuracy.toFixed(1)}%`}</td>
+                    {student.assignments.map(p => (
+                      <td key={p.assignmentId} className={cn("p-3", p.completed ? "text-green-600" : "text-orange-500")}>
+                        {p.completed ? '已完成' : `${p.completedLevels}/${p.totalLevels}`}
+                      </td>
+                    ))}
+                    <td className="p-3 text-red-500">{student.missedWords.map(w => w.word).join('、')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {report?.students.length === 0 && (
+              <p className="p-4 text-center text-sm font-bold text-gray-400">还没有学生加入，请把加入码发给学生。</p>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="flex gap-4">
+        <button
+          onClick={onBack}
+          className="flex-1 py-4 bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-2xl font-black text-xl transition-all flex items-center justify-center gap-2"
+        >
+          <ArrowLeft className="w-6 h-6" />
+          返回大厅
+        </button>
+        {teacherClass && (
+          <button
+            onClick={leaveClass}
+            className="py-4 px-6 text-gray-400 hover:text-red-500 font-bold transition-colors"
+          >
+            退出班级
+          </button>
+        )}
+      </div>
+    </motion.div>
+  );
+}
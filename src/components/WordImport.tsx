@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'motion/react';
+import { ArrowLeft, FileUp, Upload } from 'lucide-react';
+import { cn } from '../utils';
+import { CustomWordList } from '../types';
+import {
+  WordListFormat,
+  detectFormat,
+  parseWordList,
+  dedupeWords,
+  splitIntoLevels
+} from '../services/wordListImport';
+
+interface Props {
+  maxLevels: number;
+  onImport: (list: CustomWordList) => void;
+  onCancel: () => void;
+}
+
+const FORMATS: { value: WordListFormat | 'auto'; label: string }[] = [
+  { value: 'auto', label: '自动识别' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'anki', label: 'Anki 纯文本' }
+];
+
+const PREVIEW_ROWS = 20;
+
+export default function WordImport({ maxLevels, onImport, onCancel }: Props) {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<WordListFormat | 'auto'>('auto');
+  const [levelSize, setLevelSize] = useState(20);
+
+  const resolvedFormat = format === 'auto' ? detectFormat(text, fileName) : format;
+  const parsed = useMemo(() => {
+    if (!text.trim()) return null;
+    const result = parseWordList(text, resolvedFormat);
+    const { words, duplicates } = dedupeWords(result.words);
+    return { words, duplicates, errors: result.errors, levels: splitIntoLevels(words, levelSize) };
+  }, [text, resolvedFormat, levelSize]);
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    file.text().then(setText);
+  };
+
+  const save = () => {
+    if (!parsed || parsed.words.length === 0) return;
+    onImport({
+      name: fileName || '自定义词库',
+      levels: parsed.levels.slice(0, maxLevels),
+      createdAt: new Date().toISOString()
+    });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-3xl w-full mx-auto bg-white rounded-[3rem] shadow-2xl border-8 border-white p-8 space-y-6"
+    >
+      <div className="text-center">
+        <div className="inline-block p-4 bg-green-100 rounded-full mb-4">
+          <Upload className="w-10 h-10 text-green-600" />
+        </div>
+        <h2 className="text-3xl font-black text-gray-800">导入自定义词库</h2>
+        <p className="text-gray-400 font-bold">支持 CSV、JSON 和 Anki 纯文本导出</p>
+      </div>
+
+      <label className="flex items-center justify-center gap-3 p-6 border-4 border-dashed border-gray-200 rounded-3xl cursor-pointer hover:border-green-400 transition-colors font-bold text-gray-500">
+        <FileUp className="w-6 h-6" />
+        {fileName || '选择文件'}
+        <input
+          type="file"
+          accept=".csv,.json,.txt,.tsv"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+      </label>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={'或直接粘贴，例如：\nword,translation\nabandon,放弃'}
+        rows={6}
+        className="w-full p-4 bg-gray-50 border-4 border-gray-200 rounded-2xl focus:border-green-400 focus:outline-none font-mono text-sm"
+      />
+
+      <div className="grid grid-cols-2 gap-4 text-sm font-bold text-gray-600">
+        <label className="space-y-2">
+          <span className="block uppercase tracking-widest">格式</span>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as WordListFormat | 'auto')}
+            className="w-full px-3 py-2 bg-gray-50 rounded-xl border-4 border-gray-200 focus:outline-none"
+          >
+            {FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+          </select>
+        </label>
+        <label className="space-y-2">
+          <span className="block uppercase tracking-widest">每关单词数</span>
+          <input
+            type="number"
+            min={5}
+            max={50}
+            value={levelSize}
+            onChange={(e) => setLevelSize(Math.min(50, Math.max(5, Number(e.target.value) || 5)))}
+            className="w-full px-3 py-2 bg-gray-50 rounded-xl border-4 border-gray-200 focus:outline-none"
+          />
+        </label>
+      </div>
+
+      {parsed && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2 text-sm font-black">
+            <span className="px-3 py-1 bg-green-100 text-green-700 rounded-full">有效单词 {parsed.words.length}</span>
+            <span className="px-3 py-1 bg-blue-100 text-blue-700 rounded-full">共 {parsed.levels.length} 关</span>
+            {parsed.duplicates.length > 0 && (
+              <span className="px-3 py-1 bg-yellow-100 text-yellow-700 rounded-full">已合并重复 {parsed.duplicates.length}</span>
+            )}
+            {parsed.errors.length > 0 && (
+              <span className="px-3 py-1 bg-red-100 text-red-700 rounded-full">无效行 {parsed.errors.length}</span>
+            )}
+          </div>
+
+          {parsed.levels.length > maxLevels && (
+            <p className="text-sm font-bold text-orange-500">
+              只会使用前 {maxLevels} 关（{maxLevels * levelSize} 个单词），可以调大每关单词数。
+            </p>
+          )}
+
+          {parsed.errors.length > 0 && (
+            <ul className="max-h-32 overflow-y-auto text-sm font-bold text-red-500 bg-red-50 rounded-2xl p-4 space-y-1">
+              {parsed.errors.map((e, i) => (
+                <li key={i}>第 {e.row} 行：{e.reason}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="max-h-64 overflow-y-auto rounded-2xl border-4 border-gray-100">
+            <table className="w-full text-left">
+              <thead className="sticky top-0 bg-white text-xs font-black text-gray-400 uppercase tracking-widest">
+                <tr>
+                  <th className="p-3">关卡</th>
+                  <th className="p-3">单词</th>
+                  <th className="p-3">释义</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50 font-bold">
+                {parsed.words.slice(0, PREVIEW_ROWS).map((w, i) => (
+                  <tr key={w.word}>
+                    <td className="p-3 text-gray-400">{Math.floor(i / levelSize) + 1}</td>
+                    <td className="p-3 text-gray-800">{w.word}</td>
+                    <td className="p-3 text-gray-500">{w.translation}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {parsed.words.length > PREVIEW_ROWS && (
+              <p className="p-3 text-center text-sm font-bold text-gray-400">
+                还有 {parsed.words.length - PREVIEW_ROWS} 个单词…
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-4">
+        <button
+          onClick={onCancel}
+          className="flex-1 py-4 bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-2xl font-black text-xl transition-all flex items-center justify-center gap-2"
+        >
+          <ArrowLeft className="w-6 h-6" />
+          返回大厅
+        </button>
+        <button
+          onClick={save}
+          disabled={!parsed || parsed.words.length === 0}
+          className={cn(
+            "flex-1 py-4 bg-green-500 hover:bg-green-600 text-white rounded-2xl font-black text-xl shadow-lg border-b-4 border-green-700 transition-all",
+            "active:translate-y-1 active:border-b-0 disabled:opacity-50 disabled:cursor-not-allowed"
+          )}
+        >
+          使用这个词库
+        </button>
+      </div>
+    </motion.div>
+  );
+}
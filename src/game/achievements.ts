@@ -0,0 +1,130 @@
+import { AchievementId, PlayerProfile, PlayerProgress } from "../types";
+import { LevelScore } from "../services/scoring";
+import { GameSession } from "./gameReducer";
+import { getTrack } from "./curriculum";
+
+// Achievements are checked once per finished level or review, from finishLevel.
+
+export interface AchievementContext {
+  session: GameSession;
+  score: LevelScore;
+  // Streak already includes this session
+  profile: PlayerProfile;
+  // Progress after this level, or null when the session does not count towards it
+  progress: PlayerProgress | null;
+  masteredWords: number;
+}
+
+export interface Achievement {
+  id: AchievementId;
+  title: string;
+  description: string;
+  icon: string;
+  earned: (context: AchievementContext) => boolean;
+}
+
+const SPEED_RUN_MS = 2000;
+
+function isLevel({ session }: AchievementContext): boolean {
+  return session.sessionMode === "LEVEL";
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: "FIRST_LEVEL",
+    title: "初出茅庐",
+    description: "完成第一次闯关",
+    icon: "🎮",
+    earned: isLevel
+  },
+  {
+    id: "FIRST_PASS",
+    title: "旗开得胜",
+    description: "第一次通过关卡",
+    icon: "🚩",
+    earned: context => isLevel(context) && context.score.passed
+  },
+  {
+    id: "PERFECT_LEVEL",
+    title: "完美通关",
+    description: "一关全部答对",
+    icon: "💯",
+    earned: context => isLevel(context) && context.score.correctCount === context.session.words.length
+  },
+  {
+    id: "COMBO_20",
+    title: "连击高手",
+    description: "一关内连续答对 20 题",
+    icon: "🔥",
+    earned: context => context.score.maxCombo >= 20
+  },
+  {
+    id: "SPEED_RUN",
+    title: "闪电手",
+    description: "通过关卡，且平均每题不到 2 秒",
+    icon: "⚡",
+    earned: context => {
+      const { answers } = context.session;
+      const average = answers.reduce((sum, a) => sum + a.responseMs, 0) / Math.max(1, answers.length);
+      return isLevel(context) && context.score.passed && average < SPEED_RUN_MS;
+    }
+  },
+  {
+    id: "CHALLENGER",
+    title: "接受挑战",
+    description: "完成一次好友挑战",
+    icon: "⚔️",
+    earned: context => isLevel(context) && Boolean(context.session.challengeSeed)
+  },
+  {
+    id: "TRACK_COMPLETE",
+    title: "全部通关",
+    description: "通过某个词库的最后一关",
+    icon: "👑",
+    earned: ({ progress, session, score }) =>
+      progress !== null && score.passed && session.level === getTrack(progress.trackId).levels.length
+  },
+  {
+    id: "WORDS_100",
+    title: "百词斩",
+    description: "掌握 100 个单词",
+    icon: "📚",
+    earned: context => context.masteredWords >= 100
+  },
+  {
+    id: "STREAK_3",
+    title: "三天打鱼",
+    description: "连续练习 3 天",
+    icon: "🌱",
+    earned: context => context.profile.streak.current >= 3
+  },
+  {
+    id: "STREAK_7",
+    title: "七日坚持",
+    description: "连续练习 7 天",
+    icon: "🌟",
+    earned: context => context.profile.streak.current >= 7
+  },
+  {
+    id: "STREAK_30",
+    title: "月度学霸",
+    description: "连续练习 30 天",
+    icon: "🏆",
+    earned: context => context.profile.streak.current >= 30
+  }
+];
+
+export function getAchievement(id: AchievementId): Achievement | undefined {
+  return ACHIEVEMENTS.find(a => a.id === id);
+}
+
+// Achievements earned by this session that the profile does not have yet
+export function newAchievements(context: AchievementContext): Achievement[] {
+  return ACHIEVEMENTS.filter(a => !context.profile.achievements[a.id] && a.earned(context));
+}
+
+export function unlockAchievements(profile: PlayerProfile, earned: Achievement[], now: Date = new Date()): PlayerProfile {
+  if (earned.length === 0) return profile;
+  const unlocked = Object.fromEntries(earned.map(a => [a.id, now.toISOString()]));
+  return { ...profile, achievements: { ...profile.achievements, ...unlocked } };
+}
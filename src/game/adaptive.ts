@@ -0,0 +1,37 @@
+import { RawWord, WordMastery } from "../types";
+import { isMastered, weakestFirst } from "../services/masteryService";
+import { wordId } from "./wordId";
+
+// Adaptive level composition: a player's weak words from anywhere come back in
+// later levels. They first take the place of level words the player has
+// already mastered, and are otherwise added on top, so new words are never
+// dropped. At most `maxShare` of the level is mixed in.
+
+export const ADAPTIVE_SHARE = 0.2;
+
+export function composeLevel(levelWords: RawWord[], mastery: WordMastery[], maxShare = ADAPTIVE_SHARE): RawWord[] {
+  const slots = Math.floor(levelWords.length * maxShare);
+  if (slots === 0) return levelWords;
+
+  const byId = new Map(mastery.map(m => [m.wordId, m]));
+  const inLevel = new Set(levelWords.map(wordId));
+  const weak = weakestFirst(mastery)
+    .filter(m => !inLevel.has(m.wordId))
+    .slice(0, slots)
+    .map((m): RawWord => ({ word: m.word, translation: m.translation }));
+  if (weak.length === 0) return levelWords;
+
+  // Swap out mastered words, starting from the end of the level
+  const composed = [...levelWords];
+  let next = 0;
+  for (let i = composed.length - 1; i >= 0 && next < weak.length; i--) {
+    const known = byId.get(wordId(composed[i]));
+    if (known && isMastered(known)) composed[i] = weak[next++];
+  }
+
+  // The rest are spread evenly through the level rather than bunched at the end
+  const extra = weak.slice(next);
+  const step = Math.floor(composed.length / (extra.length + 1));
+  extra.forEach((word, i) => composed.splice(step * (i + 1) + i, 0, word));
+  return composed;
+}
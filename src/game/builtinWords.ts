@@ -0,0 +1,19 @@
+import { RawWord } from "../types";
+
+// The small word bank bundled with the app, by level: playable without a sheet or
+// Gemini, and the last resort for answer options when a level's own words run short.
+
+export const BUILTIN_WORDS: Record<number, RawWord[]> = {
+  1: [
+    { word: "abandon", translation: "放弃" },
+    { word: "ability", translation: "能力" },
+    { word: "abroad", translation: "在国外" },
+    { word: "absolute", translation: "绝对的" },
+    { word: "academic", translation: "学术的" },
+    { word: "accent", translation: "口音" },
+    { word: "accept", translation: "接受" },
+    { word: "access", translation: "接近；进入" },
+    { word: "accident", translation: "事故" },
+    { word: "account", translation: "账户；解释" },
+  ]
+};
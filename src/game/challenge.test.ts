@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { challengeKey, challengeUrl, parseChallenge } from "./challenge";
+
+describe("challenge links", () => {
+  it("carry the word source through a round trip", () => {
+    const url = challengeUrl({ seed: "abc123", track: "CET4", level: 2, mode: "SPELLING", source: "builtin" }, "https://example.com/game?x=1");
+    expect(parseChallenge(new URL(url).search)).toEqual({ seed: "abc123", track: "CET4", level: 2, mode: "SPELLING", source: "builtin" });
+  });
+
+  it("leave the source out of links from before it was recorded", () => {
+    expect(parseChallenge("?challenge=abc123&level=3")).toEqual({ seed: "abc123", track: "IELTS", level: 3, mode: "EN_TO_ZH" });
+  });
+
+  it("reject generated words as a source", () => {
+    expect(parseChallenge("?challenge=abc123&source=gemini")).toBeNull();
+  });
+});
+
+describe("challengeKey", () => {
+  it("keeps the bare seed for sheets and ranks other sources separately", () => {
+    expect(challengeKey("abc123", "sheets")).toBe("abc123");
+    expect(challengeKey("abc123", null)).toBe("abc123");
+    expect(challengeKey("abc123", "builtin")).toBe("abc123:builtin");
+  });
+});
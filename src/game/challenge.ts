@@ -0,0 +1,65 @@
+import { QuestionMode, TrackId } from "../types";
+import { DEFAULT_TRACK_ID, getTrack, isTrackId, WordSource } from "./curriculum";
+
+// A challenge is a track + level + question mode + seed + word source. Everyone who
+// opens the same link gets the same words in the same order with the same options, so
+// their results can be ranked against each other.
+
+// Sources that give every device the same words. Gemini writes new ones on each call.
+export type ChallengeSource = Exclude<WordSource["type"], "gemini">;
+export const CHALLENGE_SOURCES: ChallengeSource[] = ["sheets", "builtin"];
+
+export interface Challenge {
+  seed: string;
+  track: TrackId;
+  level: number;
+  mode: QuestionMode;
+  // Missing for a new challenge until its words are first loaded, and in links from
+  // before sources were recorded; the first challenge source with words is then used
+  source?: ChallengeSource;
+}
+
+const QUESTION_MODES: QuestionMode[] = ["EN_TO_ZH", "ZH_TO_EN", "SPELLING", "LISTENING"];
+const SEED_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+export function generateSeed(length = 8, random: () => number = Math.random): string {
+  return Array.from({ length }, () => SEED_ALPHABET[Math.floor(random() * SEED_ALPHABET.length)]).join("");
+}
+
+// Reads ?challenge=<seed>&track=T&level=N&mode=M; null when the URL has no valid challenge
+export function parseChallenge(search: string): Challenge | null {
+  const params = new URLSearchParams(search);
+  const seed = params.get("challenge")?.trim();
+  if (!seed || !/^[\w-]{1,32}$/.test(seed)) return null;
+
+  const track = params.get("track") ?? DEFAULT_TRACK_ID;
+  if (!isTrackId(track)) return null;
+
+  const level = Number(params.get("level") ?? 1);
+  if (!Number.isInteger(level) || level < 1 || level > getTrack(track).levels.length) return null;
+
+  const mode = (params.get("mode") ?? "EN_TO_ZH") as QuestionMode;
+  if (!QUESTION_MODES.includes(mode)) return null;
+
+  const source = params.get("source");
+  if (source !== null && !CHALLENGE_SOURCES.includes(source as ChallengeSource)) return null;
+
+  return { seed, track, level, mode, ...(source ? { source: source as ChallengeSource } : {}) };
+}
+
+export function challengeUrl(challenge: Challenge, base: string): string {
+  const url = new URL(base);
+  url.search = "";
+  url.searchParams.set("challenge", challenge.seed);
+  url.searchParams.set("track", challenge.track);
+  url.searchParams.set("level", String(challenge.level));
+  url.searchParams.set("mode", challenge.mode);
+  if (challenge.source) url.searchParams.set("source", challenge.source);
+  return url.toString();
+}
+
+// What records and the challenge leaderboard are keyed by: the same seed over other
+// words is another challenge. Sheets challenges keep the bare seed, like older records.
+export function challengeKey(seed: string, source: ChallengeSource | null | undefined): string {
+  return source && source !== "sheets" ? `${seed}:${source}` : seed;
+}
@@ -0,0 +1,121 @@
+import { TrackId } from "../types";
+import { DEFAULT_LEVEL_RULES, LevelRules } from "../services/scoring";
+
+// The curriculum: which tracks exist, how many levels each has, how big and how
+// hard every level is and where its words come from. The lobby, unlocking and
+// the result screen all read from here.
+
+// Tried in order until one returns words
+export type WordSource =
+  // A tab of the configured Google Sheet
+  | { type: "sheets"; sheet: string }
+  // The small word bank bundled with the app
+  | { type: "builtin" }
+  // Generated by Gemini for the given exam
+  | { type: "gemini"; exam: string };
+
+export interface CurriculumLevel {
+  level: number;
+  wordsPerLevel: number;
+  rules: LevelRules;
+  sources: WordSource[];
+}
+
+export interface Track {
+  id: TrackId;
+  name: string;
+  description: string;
+  levels: CurriculumLevel[];
+}
+
+interface TrackDefinition {
+  id: TrackId;
+  name: string;
+  description: string;
+  // Name of the exam in the Gemini prompt
+  exam: string;
+  levelCount: number;
+  wordsPerLevel: number;
+  passThreshold: number;
+  // Sheet tab of level N is `${sheetPrefix}第N关`
+  sheetPrefix: string;
+  // Per-question countdown by level; levels not listed are untimed
+  timeLimits: Record<number, number>;
+  // Only the IELTS track ships bundled words
+  builtin?: boolean;
+}
+
+function defineTrack(definition: TrackDefinition): Track {
+  const levels = Array.from({ length: definition.levelCount }, (_, i): CurriculumLevel => {
+    const level = i + 1;
+    return {
+      level,
+      wordsPerLevel: definition.wordsPerLevel,
+      rules: {
+        ...DEFAULT_LEVEL_RULES,
+        passThreshold: definition.passThreshold,
+        questionTimeLimitMs: definition.timeLimits[level] ?? null
+      },
+      sources: [
+        { type: "sheets", sheet: `${definition.sheetPrefix}第${level}关` },
+        ...(definition.builtin ? [{ type: "builtin" } as const] : []),
+        { type: "gemini", exam: definition.exam }
+      ]
+    };
+  });
+  return { id: definition.id, name: definition.name, description: definition.description, levels };
+}
+
+export const TRACKS: Record<TrackId, Track> = {
+  IELTS: defineTrack({
+    id: "IELTS",
+    name: "雅思",
+    description: "10 关 · 每关 50 词 · 90% 过关",
+    exam: "雅思",
+    levelCount: 10,
+    wordsPerLevel: 50,
+    passThreshold: 90,
+    sheetPrefix: "",
+    timeLimits: { 6: 15000, 7: 12000, 8: 10000, 9: 8000, 10: 8000 },
+    builtin: true
+  }),
+  CET4: defineTrack({
+    id: "CET4",
+    name: "四级",
+    description: "8 关 · 每关 40 词 · 85% 过关",
+    exam: "大学英语四级（CET-4）",
+    levelCount: 8,
+    wordsPerLevel: 40,
+    passThreshold: 85,
+    sheetPrefix: "CET4-",
+    timeLimits: { 6: 15000, 7: 12000, 8: 10000 }
+  }),
+  TOEFL: defineTrack({
+    id: "TOEFL",
+    name: "托福",
+    description: "12 关 · 每关 50 词 · 90% 过关",
+    exam: "托福（TOEFL）",
+    levelCount: 12,
+    wordsPerLevel: 50,
+    passThreshold: 90,
+    sheetPrefix: "TOEFL-",
+    timeLimits: { 7: 15000, 8: 12000, 9: 12000, 10: 10000, 11: 8000, 12: 8000 }
+  })
+};
+
+// Records, progress and links from before tracks existed are all IELTS
+export const DEFAULT_TRACK_ID: TrackId = "IELTS";
+
+export function isTrackId(value: unknown): value is TrackId {
+  // Own keys only: `in` would also accept inherited names like "constructor"
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(TRACKS, value);
+}
+
+export function getTrack(id: unknown): Track {
+  return TRACKS[isTrackId(id) ? id : DEFAULT_TRACK_ID];
+}
+
+// Levels past the end of the track fall back to its last level
+export function getCurriculumLevel(track: Track, level: number): CurriculumLevel {
+  return track.levels[Math.min(Math.max(1, level), track.levels.length) - 1];
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+import { Word } from "../types";
+import { DEFAULT_LEVEL_RULES } from "../services/scoring";
+import { gameReducer, initialSession, GameAction, GameSession } from "./gameReducer";
+import { createProgress } from "./progression";
+import { createProfile } from "./profile";
+import { FinishContext, finishSession } from "./finishSession";
+
+// profile.ts pulls in the review store, whose singleton uses window.localStorage on import
+vi.hoisted(() => {
+  (globalThis as { window?: unknown }).window = {};
+});
+
+const WORD: Word = {
+  id: "abandon",
+  word: "abandon",
+  translation: "放弃",
+  mode: "EN_TO_ZH",
+  options: ["放弃", "好处", "容量", "下降"],
+  correctAnswer: "放弃"
+};
+
+// A one-word session of level 1 answered correctly
+function played(extra: Partial<Extract<GameAction, { type: "START_SESSION" }>> = {}): GameSession {
+  const started = gameReducer(initialSession, {
+    type: "START_SESSION",
+    words: [WORD],
+    sessionMode: "LEVEL",
+    questionMode: "EN_TO_ZH",
+    trackId: "IELTS",
+    level: 1,
+    rules: DEFAULT_LEVEL_RULES,
+    showFeedback: false,
+    now: 1000,
+    ...extra
+  });
+  return gameReducer(started, { type: "ANSWER", selected: "放弃", now: 2000 });
+}
+
+const CONTEXT: FinishContext = {
+  progress: createProgress("amy", "IELTS"),
+  profile: createProfile("amy", new Date(2026, 9, 1)),
+  playerId: "amy",
+  playerNo: "1",
+  masteredWords: 0
+};
+
+describe("finishSession", () => {
+  it("unlocks the next level and builds the record for a passed level", () => {
+    const finished = finishSession(played(), CONTEXT);
+    expect(finished.progress?.unlockedLevel).toBe(2);
+    expect(finished.result?.record).toMatchObject({ playerId: "amy", playerNo: "1", source: "LEVEL" });
+    expect(finished.profile.streak.current).toBe(1);
+  });
+
+  it("leaves progress alone for imported lists, challenges and other tracks", () => {
+    expect(finishSession(played({ source: "CUSTOM_LIST" }), CONTEXT).progress).toBeNull();
+    expect(finishSession(played({ challengeSeed: "abc123" }), CONTEXT).progress).toBeNull();
+    expect(finishSession(played({ trackId: "CET4" }), CONTEXT).progress).toBeNull();
+  });
+
+  it("counts a review as practice but builds no record", () => {
+    const finished = finishSession(played({ sessionMode: "REVIEW" }), CONTEXT);
+    expect(finished.progress).toBeNull();
+    expect(finished.result).toBeNull();
+    expect(finished.profile.streak.current).toBe(1);
+  });
+});
@@ -0,0 +1,65 @@
+import { LevelResult, PlayerProfile, PlayerProgress } from "../types";
+import { LevelScore } from "../services/scoring";
+import { GameSession, buildLevelResult, scoreSession } from "./gameReducer";
+import { applyLevelResult } from "./progression";
+import { Achievement, newAchievements, unlockAchievements } from "./achievements";
+import { recordPractice } from "./profile";
+
+export interface FinishContext {
+  progress: PlayerProgress;
+  profile: PlayerProfile;
+  playerId: string;
+  playerNo: string;
+  classId?: string;
+  masteredWords: number;
+}
+
+export interface FinishedSession {
+  score: LevelScore;
+  // Null when the session does not count towards level progress
+  progress: PlayerProgress | null;
+  profile: PlayerProfile;
+  earned: Achievement[];
+  // Null for reviews, which only update the SM-2 schedule
+  result: LevelResult | null;
+}
+
+// Whether a finished session counts towards unlocking levels. Word-list assignments and
+// imported lists are not curriculum levels, and a challenge link can open any level.
+// Progress is kept per track, so a level of another track (e.g. an assignment) does not count either.
+export function countsTowardsProgress(finished: GameSession, progress: PlayerProgress): boolean {
+  return finished.sessionMode !== "REVIEW"
+    && finished.source === "LEVEL"
+    && !finished.challengeSeed
+    && finished.trackId === progress.trackId;
+}
+
+// What a finished session changes: progress, the daily streak, achievements and the
+// record to save. Storing and sending them is left to the caller.
+export function finishSession(finished: GameSession, context: FinishContext): FinishedSession {
+  const finishedAt = new Date(finished.endTime ?? Date.now());
+  const score = scoreSession(finished);
+  // Reviews count as practice for the daily streak too
+  const practised = recordPractice(context.profile, finishedAt);
+  const progress = countsTowardsProgress(finished, context.progress)
+    ? applyLevelResult(context.progress, finished.level, score, finishedAt)
+    : null;
+
+  const earned = newAchievements({
+    session: finished,
+    score,
+    profile: practised,
+    progress,
+    masteredWords: context.masteredWords
+  });
+
+  return {
+    score,
+    progress,
+    profile: unlockAchievements(practised, earned, finishedAt),
+    earned,
+    result: finished.sessionMode === "REVIEW"
+      ? null
+      : buildLevelResult(finished, context.playerId, context.playerNo, context.classId)
+  };
+}
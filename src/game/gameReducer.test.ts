@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { Word } from "../types";
+import { DEFAULT_LEVEL_RULES } from "../services/scoring";
+import { buildLevelResult, gameReducer, initialSession, scoreSession, GameAction, GameSession } from "./gameReducer";
+
+function word(english: string, translation: string): Word {
+  return {
+    id: english,
+    word: english,
+    translation,
+    mode: "EN_TO_ZH",
+    options: [translation, "别的", "其他", "错误"],
+    correctAnswer: translation
+  };
+}
+
+const WORDS = [word("abandon", "放弃"), word("benefit", "好处"), word("capacity", "容量")];
+
+function start(showFeedback = false, extra: Partial<Extract<GameAction, { type: "START_SESSION" }>> = {}): GameSession {
+  return gameReducer(initialSession, {
+    type: "START_SESSION",
+    words: WORDS,
+    sessionMode: "LEVEL",
+    questionMode: "EN_TO_ZH",
+    level: 1,
+    rules: DEFAULT_LEVEL_RULES,
+    showFeedback,
+    now: 1000,
+    ...extra
+  });
+}
+
+function answerAll(state: GameSession, selections: string[]): GameSession {
+  return selections.reduce((s, selected, i) => gameReducer(s, { type: "ANSWER", selected, now: 2000 + i * 1000 }), state);
+}
+
+describe("gameReducer", () => {
+  it("counts the last answer before the session reaches RESULT", () => {
+    const beforeLast = answerAll(start(), ["放弃", "好处"]);
+    expect(beforeLast.gameState).toBe("PLAYING");
+
+    const finished = gameReducer(beforeLast, { type: "ANSWER", selected: "容量", now: 5000 });
+    expect(finished.gameState).toBe("RESULT");
+    expect(finished.answers).toHaveLength(3);
+    expect(finished.answers[2]).toMatchObject({ wordId: "capacity", isCorrect: true });
+    expect(finished.endTime).toBe(5000);
+    expect(scoreSession(finished)).toMatchObject({ correctCount: 3, accuracy: 100, passed: true });
+  });
+
+  it("saves the last answer in the level record", () => {
+    const finished = answerAll(start(), ["放弃", "别的", "容量"]);
+    const { record, answers } = buildLevelResult(finished, "amy", "1");
+    expect(record.correctCount).toBe(2);
+    expect(record.totalWords).toBe(3);
+    expect(answers.map(a => a.word)).toEqual(["abandon", "benefit", "capacity"]);
+    expect(answers[2]).toMatchObject({ selected: "容量", isCorrect: true });
+  });
+
+  it("keeps the last answer when feedback holds the question on screen", () => {
+    const answered = answerAll(start(true), ["放弃"]);
+    expect(answered.awaitingNext).toBe(true);
+
+    let state = gameReducer(answered, { type: "NEXT_QUESTION", now: 2500 });
+    state = gameReducer(state, { type: "ANSWER", selected: "好处", now: 3000 });
+    state = gameReducer(state, { type: "NEXT_QUESTION", now: 3500 });
+    state = gameReducer(state, { type: "ANSWER", selected: "容量", now: 4000 });
+    expect(state.gameState).toBe("PLAYING");
+    expect(state.answers).toHaveLength(3);
+
+    const finished = gameReducer(state, { type: "NEXT_QUESTION", now: 9000 });
+    expect(finished.gameState).toBe("RESULT");
+    expect(finished.endTime).toBe(4000);
+    expect(scoreSession(finished).correctCount).toBe(3);
+  });
+
+  it("matches answers to their question when a word appears twice", () => {
+    const state = gameReducer(initialSession, {
+      type: "START_SESSION",
+      words: [word("bank", "银行"), word("bank", "河岸")],
+      sessionMode: "LEVEL",
+      questionMode: "EN_TO_ZH",
+      level: 1,
+      rules: DEFAULT_LEVEL_RULES,
+      now: 1000
+    });
+    const { answers } = buildLevelResult(answerAll(state, ["银行", "银行"]), "amy", "1");
+    expect(answers).toEqual([
+      { word: "bank", translation: "银行", selected: "银行", isCorrect: true },
+      { word: "bank", translation: "河岸", selected: "银行", isCorrect: false }
+    ]);
+  });
+
+  it("ignores answers once the session is over", () => {
+    const finished = answerAll(start(), ["放弃", "好处", "容量"]);
+    expect(gameReducer(finished, { type: "ANSWER", selected: "放弃", now: 9000 })).toBe(finished);
+  });
+});
+
+describe("buildLevelResult source", () => {
+  const assignment = { id: 7, classId: "c1", title: "Unit 1", levels: [], words: [], dueDate: "2026-12-31", createdAt: "2026-10-01" };
+
+  it("records curriculum levels as LEVEL", () => {
+    expect(buildLevelResult(answerAll(start(), ["放弃", "好处", "容量"]), "amy", "1").record.source).toBe("LEVEL");
+  });
+
+  it("records word-list assignments as WORD_LIST", () => {
+    const finished = answerAll(start(false, { assignment }), ["放弃", "好处", "容量"]);
+    expect(buildLevelResult(finished, "amy", "1").record.source).toBe("WORD_LIST");
+  });
+
+  it("records a level of an imported list as CUSTOM_LIST", () => {
+    const finished = answerAll(start(false, { source: "CUSTOM_LIST" }), ["放弃", "好处", "容量"]);
+    expect(buildLevelResult(finished, "amy", "1").record.source).toBe("CUSTOM_LIST");
+  });
+});
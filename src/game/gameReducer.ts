@@ -0,0 +1,270 @@
+import { Assignment, GameRecord, GameState, TrackId, LevelResult, QuestionMode, RecordSource, SessionMode, UserAnswer, Word } from "../types";
+import { isSpellingMatch } from "../services/answerMatching";
+import { LevelRules, LevelScore, DEFAULT_LEVEL_RULES, scoreAnswer, scoreLevel } from "../services/scoring";
+import { formatDuration } from "../utils";
+import { DEFAULT_TRACK_ID } from "./curriculum";
+import { ChallengeSource, challengeKey } from "./challenge";
+
+// All GameState transitions of a play session as a pure reducer. Side effects
+// (saving records, confetti, progress) are driven by App from the resulting state.
+
+export interface GameSession {
+  gameState: GameState;
+  sessionMode: SessionMode;
+  questionMode: QuestionMode;
+  trackId: TrackId;
+  level: number;
+  rules: LevelRules;
+  // The class assignment being played, if any
+  assignment: Assignment | null;
+  // Where the level's words came from, see RecordSource
+  source: RecordSource;
+  // Seed and word source of the challenge being played, if any
+  challengeSeed: string | null;
+  challengeSource: ChallengeSource | null;
+  words: Word[];
+  currentIndex: number;
+  // Show right/wrong, the answer and an example after each question
+  showFeedback: boolean;
+  // The current question is answered and its feedback is on screen
+  awaitingNext: boolean;
+  // When the feedback went up; reading it is left out of the duration like paused time
+  answeredAt: number | null;
+  answers: UserAnswer[];
+  startTime: number;
+  questionStartedAt: number;
+  // Time the session spent interrupted, left out of its duration
+  pausedMs: number;
+  // Set when the last question is answered
+  endTime: number | null;
+}
+
+export type GameAction =
+  | {
+      type: "START_SESSION";
+      words: Word[];
+      sessionMode: SessionMode;
+      questionMode: QuestionMode;
+      trackId?: TrackId;
+      level: number;
+      rules: LevelRules;
+      assignment?: Assignment | null;
+      // Defaults to WORD_LIST for word-list assignments, otherwise LEVEL
+      source?: RecordSource;
+      challengeSeed?: string | null;
+      challengeSource?: ChallengeSource | null;
+      showFeedback?: boolean;
+      now: number;
+    }
+  | { type: "RESUME_SESSION"; session: GameSession; pausedAt: number; now: number }
+  | { type: "ANSWER"; selected: string; timedOut?: boolean; now: number }
+  | { type: "NEXT_QUESTION"; now: number }
+  | { type: "TOGGLE_FEEDBACK" }
+  | { type: "OPEN_SUMMARY" }
+  | { type: "OPEN_IMPORT" }
+  | { type: "OPEN_TEACHER" }
+  | { type: "OPEN_LEADERBOARD" }
+  | { type: "OPEN_PROFILE" }
+  | { type: "OPEN_ROOM" }
+  | { type: "BACK_TO_LOBBY" };
+
+export const initialSession: GameSession = {
+  gameState: "LOBBY",
+  sessionMode: "LEVEL",
+  questionMode: "EN_TO_ZH",
+  trackId: DEFAULT_TRACK_ID,
+  level: 1,
+  rules: DEFAULT_LEVEL_RULES,
+  assignment: null,
+  source: "LEVEL",
+  challengeSeed: null,
+  challengeSource: null,
+  words: [],
+  currentIndex: 0,
+  showFeedback: false,
+  awaitingNext: false,
+  answeredAt: null,
+  answers: [],
+  startTime: 0,
+  questionStartedAt: 0,
+  pausedMs: 0,
+  endTime: null
+};
+
+export function isAnswerCorrect(word: Word, selected: string): boolean {
+  return word.mode === "SPELLING"
+    ? isSpellingMatch(selected, word.correctAnswer)
+    : selected === word.correctAnswer;
+}
+
+function defaultSource(assignment: Assignment | null | undefined): RecordSource {
+  return assignment?.words ? "WORD_LIST" : "LEVEL";
+}
+
+export function gameReducer(state: GameSession, action: GameAction): GameSession {
+  switch (action.type) {
+    case "START_SESSION":
+      if (action.words.length === 0) return state;
+      return {
+        ...state,
+        gameState: "PLAYING",
+        sessionMode: action.sessionMode,
+        questionMode: action.questionMode,
+        trackId: action.trackId ?? DEFAULT_TRACK_ID,
+        level: action.level,
+        rules: action.rules,
+        assignment: action.assignment ?? null,
+        source: action.source ?? defaultSource(action.assignment),
+        challengeSeed: action.challengeSeed ?? null,
+        challengeSource: action.challengeSource ?? null,
+        words: action.words,
+        currentIndex: 0,
+        showFeedback: action.showFeedback ?? false,
+        awaitingNext: false,
+        answeredAt: null,
+        answers: [],
+        startTime: action.now,
+        questionStartedAt: action.now,
+        pausedMs: 0,
+        endTime: null
+      };
+
+    // The current question starts over with a fresh timer
+    case "RESUME_SESSION":
+      return {
+        ...action.session,
+        // Snapshots from before tracks, the feedback step and sources lack these
+        trackId: action.session.trackId ?? DEFAULT_TRACK_ID,
+        source: action.session.source ?? defaultSource(action.session.assignment),
+        challengeSource: action.session.challengeSource ?? null,
+        showFeedback: action.session.showFeedback ?? false,
+        awaitingNext: action.session.awaitingNext ?? false,
+        answeredAt: action.session.awaitingNext ? action.now : null,
+        gameState: "PLAYING",
+        questionStartedAt: action.now,
+        pausedMs: (action.session.pausedMs ?? 0) + Math.max(0, action.now - action.pausedAt),
+        endTime: null
+      };
+
+    case "ANSWER": {
+      if (state.gameState !== "PLAYING" || state.awaitingNext) return state;
+      const word = state.words[state.currentIndex];
+      if (!word) return state;
+
+      const timedOut = action.timedOut ?? false;
+      const isCorrect = !timedOut && isAnswerCorrect(word, action.selected);
+      const responseMs = action.now - state.questionStartedAt;
+      const previousCombo = state.answers[state.answers.length - 1]?.combo ?? 0;
+      const { points, combo } = scoreAnswer(isCorrect, responseMs, previousCombo, state.rules.questionTimeLimitMs);
+
+      const answers = [...state.answers, {
+        wordId: word.id,
+        selected: action.selected,
+        isCorrect,
+        responseMs,
+        timedOut,
+        points,
+        combo
+      }];
+
+      const isLast = state.currentIndex >= state.words.length - 1;
+      // With feedback on, the question stays on screen until NEXT_QUESTION.
+      // The level's time still ends with the last answer, not with reading its feedback.
+      if (state.showFeedback) {
+        return { ...state, answers, awaitingNext: true, answeredAt: action.now, endTime: isLast ? action.now : null };
+      }
+
+      // The final answer is part of `answers` before the session counts as finished
+      if (isLast) {
+        return { ...state, answers, gameState: "RESULT", endTime: action.now };
+      }
+      return { ...state, answers, currentIndex: state.currentIndex + 1, questionStartedAt: action.now };
+    }
+
+    case "NEXT_QUESTION": {
+      if (state.gameState !== "PLAYING" || !state.awaitingNext) return state;
+      const next = { ...state, awaitingNext: false, answeredAt: null };
+      if (state.currentIndex >= state.words.length - 1) {
+        return { ...next, gameState: "RESULT", endTime: state.endTime ?? action.now };
+      }
+      return {
+        ...next,
+        currentIndex: state.currentIndex + 1,
+        questionStartedAt: action.now,
+        pausedMs: state.pausedMs + Math.max(0, action.now - (state.answeredAt ?? action.now))
+      };
+    }
+
+    case "TOGGLE_FEEDBACK":
+      return { ...state, showFeedback: !state.showFeedback };
+
+    case "OPEN_SUMMARY":
+      return { ...state, gameState: "SUMMARY" };
+
+    case "OPEN_IMPORT":
+      return { ...state, gameState: "IMPORT" };
+
+    case "OPEN_TEACHER":
+      return { ...state, gameState: "TEACHER" };
+
+    case "OPEN_LEADERBOARD":
+      return { ...state, gameState: "LEADERBOARD" };
+
+    case "OPEN_PROFILE":
+      return { ...state, gameState: "PROFILE" };
+
+    case "OPEN_ROOM":
+      return { ...state, gameState: "ROOM" };
+
+    case "BACK_TO_LOBBY":
+      return { ...state, gameState: "LOBBY" };
+  }
+}
+
+export function sessionDuration(state: GameSession): number {
+  return Math.max(0, (state.endTime ?? state.startTime) - state.startTime - state.pausedMs);
+}
+
+export function scoreSession(state: GameSession): LevelScore {
+  return scoreLevel(state.answers, state.words.length, state.rules);
+}
+
+export function buildLevelResult(state: GameSession, playerId: string, playerNo: string, classId?: string): LevelResult {
+  const durationMs = sessionDuration(state);
+  const { correctCount, accuracy, score, stars } = scoreSession(state);
+
+  const record: GameRecord = {
+    playerNo,
+    playerId,
+    startTime: new Date(state.startTime).toLocaleString(),
+    endTime: new Date(state.endTime ?? state.startTime).toLocaleString(),
+    duration: formatDuration(durationMs),
+    maxLevel: state.level,
+    totalWords: state.words.length,
+    correctCount,
+    accuracy: `${accuracy.toFixed(2)}%`,
+    mode: state.questionMode,
+    score,
+    stars,
+    track: state.trackId,
+    source: state.source,
+    ...(classId ? { classId } : {}),
+    ...(state.assignment ? { assignmentId: state.assignment.id } : {}),
+    ...(state.challengeSeed ? { challengeSeed: challengeKey(state.challengeSeed, state.challengeSource) } : {})
+  };
+
+  return {
+    record,
+    durationMs,
+    // answers[i] is the answer to words[i]; ids alone are ambiguous when a level lists a word twice
+    answers: state.answers.map((a, i) => {
+      const word = state.words[i];
+      return {
+        word: word?.word ?? "",
+        translation: word?.translation ?? "",
+        selected: a.selected,
+        isCorrect: a.isCorrect
+      };
+    })
+  };
+}
@@ -0,0 +1,59 @@
+import { PlayerProfile } from "../types";
+import { toDateKey } from "../services/reviewService";
+
+// Eggy-style avatars to pick from on the profile page
+export const AVATARS = [
+  { id: "egg", emoji: "🥚", color: "bg-yellow-100" },
+  { id: "chick", emoji: "🐣", color: "bg-orange-100" },
+  { id: "bunny", emoji: "🐰", color: "bg-pink-100" },
+  { id: "cat", emoji: "🐱", color: "bg-amber-100" },
+  { id: "panda", emoji: "🐼", color: "bg-gray-100" },
+  { id: "fox", emoji: "🦊", color: "bg-red-100" },
+  { id: "frog", emoji: "🐸", color: "bg-green-100" },
+  { id: "octopus", emoji: "🐙", color: "bg-purple-100" }
+] as const;
+
+export type Avatar = (typeof AVATARS)[number];
+
+export function getAvatar(id: string): Avatar {
+  return AVATARS.find(a => a.id === id) ?? AVATARS[0];
+}
+
+export const MAX_NICKNAME_LENGTH = 12;
+
+export function createProfile(playerId: string, now: Date = new Date()): PlayerProfile {
+  return {
+    playerId,
+    nickname: playerId.slice(0, MAX_NICKNAME_LENGTH),
+    avatar: AVATARS[0].id,
+    streak: { current: 0, longest: 0, lastPracticeDate: null },
+    achievements: {},
+    createdAt: now.toISOString()
+  };
+}
+
+function previousDay(date: Date): string {
+  const yesterday = new Date(date);
+  yesterday.setDate(yesterday.getDate() - 1);
+  return toDateKey(yesterday);
+}
+
+// Practising again on the same day keeps the streak, the next day extends it,
+// and any gap starts it over
+export function recordPractice(profile: PlayerProfile, now: Date = new Date()): PlayerProfile {
+  const today = toDateKey(now);
+  const { streak } = profile;
+  if (streak.lastPracticeDate === today) return profile;
+
+  const current = streak.lastPracticeDate === previousDay(now) ? streak.current + 1 : 1;
+  return {
+    ...profile,
+    streak: { current, longest: Math.max(streak.longest, current), lastPracticeDate: today }
+  };
+}
+
+// The streak as shown in the lobby: it only lapses once a whole day is missed
+export function activeStreak(profile: PlayerProfile, now: Date = new Date()): number {
+  const { current, lastPracticeDate } = profile.streak;
+  return lastPracticeDate === toDateKey(now) || lastPracticeDate === previousDay(now) ? current : 0;
+}
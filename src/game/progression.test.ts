@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { applyLevelResult, createProgress } from "./progression";
+import { getTrack } from "./curriculum";
+
+const PASSED = { accuracy: 100, passed: true, stars: 3, score: 500 };
+const FAILED = { accuracy: 50, passed: false, stars: 0, score: 100 };
+
+describe("applyLevelResult", () => {
+  it("unlocks the next level when the highest unlocked level is passed", () => {
+    const progress = applyLevelResult(createProgress("amy"), 1, PASSED);
+    expect(progress.unlockedLevel).toBe(2);
+    expect(progress.bestAccuracy[1]).toBe(100);
+  });
+
+  it("does not unlock anything for a failed or replayed level", () => {
+    const progress = { ...createProgress("amy"), unlockedLevel: 3 };
+    expect(applyLevelResult(progress, 3, FAILED).unlockedLevel).toBe(3);
+    expect(applyLevelResult(progress, 1, PASSED).unlockedLevel).toBe(3);
+  });
+
+  it("stops at level 10 on the IELTS track", () => {
+    expect(getTrack("IELTS").levels).toHaveLength(10);
+    let progress = createProgress("amy", "IELTS");
+    for (let level = 1; level <= 12; level++) progress = applyLevelResult(progress, level, PASSED);
+    expect(progress.unlockedLevel).toBe(10);
+
+    const replayed = applyLevelResult({ ...progress, unlockedLevel: 10 }, 10, PASSED);
+    expect(replayed.unlockedLevel).toBe(10);
+  });
+
+  it("caps other tracks at their own last level", () => {
+    const levelCount = getTrack("CET4").levels.length;
+    const progress = applyLevelResult({ ...createProgress("amy", "CET4"), unlockedLevel: levelCount }, levelCount, PASSED);
+    expect(progress.unlockedLevel).toBe(levelCount);
+  });
+
+  it("keeps the best result of each level", () => {
+    const best = applyLevelResult(applyLevelResult(createProgress("amy"), 1, PASSED), 1, FAILED);
+    expect(best.bestAccuracy[1]).toBe(100);
+    expect(best.bestStars[1]).toBe(3);
+    expect(best.bestScore[1]).toBe(500);
+  });
+});
@@ -0,0 +1,38 @@
+import { PlayerProgress, TrackId } from "../types";
+import { LevelScore } from "../services/scoring";
+import { DEFAULT_TRACK_ID, getTrack } from "./curriculum";
+
+export function createProgress(playerId: string, trackId: TrackId = DEFAULT_TRACK_ID): PlayerProgress {
+  return {
+    playerId,
+    trackId,
+    unlockedLevel: 1,
+    bestAccuracy: {},
+    bestStars: {},
+    bestScore: {},
+    lastPlayedAt: null
+  };
+}
+
+// Apply a finished level to the player's progress. Passing the highest unlocked
+// level unlocks the next one, up to the last level of the track.
+export function applyLevelResult(
+  progress: PlayerProgress,
+  level: number,
+  result: Pick<LevelScore, "accuracy" | "passed" | "stars" | "score">,
+  playedAt: Date = new Date()
+): PlayerProgress {
+  const levelCount = getTrack(progress.trackId).levels.length;
+  const unlockedLevel = result.passed && level === progress.unlockedLevel && level < levelCount
+    ? level + 1
+    : progress.unlockedLevel;
+
+  return {
+    ...progress,
+    unlockedLevel,
+    bestAccuracy: { ...progress.bestAccuracy, [level]: Math.max(progress.bestAccuracy[level] ?? 0, result.accuracy) },
+    bestStars: { ...progress.bestStars, [level]: Math.max(progress.bestStars[level] ?? 0, result.stars) },
+    bestScore: { ...progress.bestScore, [level]: Math.max(progress.bestScore[level] ?? 0, result.score) },
+    lastPlayedAt: playedAt.toISOString()
+  };
+}
@@ -0,0 +1,6 @@
+// A word's identity across levels, sessions and word sources: the English word,
+// trimmed and lower-cased, so "Abandon " in one sheet and "abandon" in another
+// are the same word.
+export function wordId(word: { word: string }): string {
+  return word.word.trim().toLowerCase().replace(/\s+/g, " ");
+}
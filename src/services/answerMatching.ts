@@ -0,0 +1,61 @@
+// Typed answers (拼写模式) are compared leniently: case, surrounding whitespace,
+// repeated inner spaces and curly apostrophes don't count as mistakes.
+
+export function normalizeAnswer(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[‘’`]/g, "'")
+    .replace(/\s+/g, " ");
+}
+
+export function isSpellingMatch(input: string, answer: string): boolean {
+  return normalizeAnswer(input) === normalizeAnswer(answer);
+}
+
+export type LetterStatus = "correct" | "wrong" | "missing" | "extra";
+
+export interface LetterDiff {
+  // The expected letter for correct/wrong/missing, the typed letter for extra
+  char: string;
+  typed?: string;
+  status: LetterStatus;
+}
+
+// Letter-level alignment by edit distance: substitutions are "wrong", letters
+// the player left out are "missing" and letters they added are "extra".
+export function diffLetters(input: string, answer: string): LetterDiff[] {
+  const a = normalizeAnswer(input);
+  const b = normalizeAnswer(answer);
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+
+  const dist: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      dist[i][j] = Math.min(dist[i - 1][j] + 1, dist[i][j - 1] + 1, dist[i - 1][j - 1] + cost);
+    }
+  }
+
+  const diff: LetterDiff[] = [];
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && dist[i][j] === dist[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)) {
+      const same = a[i - 1] === b[j - 1];
+      diff.push({ char: b[j - 1], typed: a[i - 1], status: same ? "correct" : "wrong" });
+      i--;
+      j--;
+    } else if (j > 0 && dist[i][j] === dist[i][j - 1] + 1) {
+      diff.push({ char: b[j - 1], status: "missing" });
+      j--;
+    } else {
+      diff.push({ char: a[i - 1], typed: a[i - 1], status: "extra" });
+      i--;
+    }
+  }
+  return diff.reverse();
+}
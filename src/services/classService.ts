@@ -0,0 +1,111 @@
+import { Assignment, ClassInfo, ClassReport, RawWord, TeacherClass } from "../types";
+import { RecordApiError } from "./recordService";
+
+// Classes live on the same Express + SQLite backend as the records.
+// Teacher-only endpoints are authorised with the key returned when the class was created.
+
+export interface NewAssignment {
+  title: string;
+  levels: number[];
+  words: RawWord[] | null;
+  dueDate: string;
+}
+
+export class ClassService {
+  private baseUrl: string;
+
+  constructor(baseUrl: string = "") {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  private async fetchOk(path: string, init?: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, init);
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new RecordApiError(body.error || `Request failed: ${response.status}`, response.status);
+    }
+    return response;
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    return (await this.fetchOk(path, init)).json();
+  }
+
+  private post<T>(path: string, body: unknown, teacherKey?: string): Promise<T> {
+    return this.request(path, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(teacherKey ? { "X-Teacher-Key": teacherKey } : {})
+      },
+      body: JSON.stringify(body)
+    });
+  }
+
+  async createClass(name: string, teacherName: string): Promise<TeacherClass> {
+    return this.post("/api/classes", { name, teacherName });
+  }
+
+  async joinClass(joinCode: string, playerId: string): Promise<ClassInfo> {
+    return this.post("/api/classes/join", { joinCode, playerId });
+  }
+
+  async fetchAssignments(classId: string): Promise<Assignment[]> {
+    return this.request(`/api/classes/${encodeURIComponent(classId)}/assignments`);
+  }
+
+  async createAssignment(teacherClass: TeacherClass, assignment: NewAssignment): Promise<Assignment> {
+    return this.post(`/api/classes/${encodeURIComponent(teacherClass.classId)}/assignments`, assignment, teacherClass.teacherKey);
+  }
+
+  async fetchReport(teacherClass: TeacherClass): Promise<ClassReport> {
+    return this.request(`/api/classes/${encodeURIComponent(teacherClass.classId)}/report`, {
+      headers: { "X-Teacher-Key": teacherClass.teacherKey }
+    });
+  }
+
+  // Fetched rather than linked so the teacher key stays in a header, out of URLs and logs
+  async fetchReportCsv(teacherClass: TeacherClass): Promise<Blob> {
+    const response = await this.fetchOk(`/api/classes/${encodeURIComponent(teacherClass.classId)}/report.csv`, {
+      headers: { "X-Teacher-Key": teacherClass.teacherKey }
+    });
+    return response.blob();
+  }
+}
+
+// Remembers, per browser, the class a teacher manages and the class each player joined
+
+export class ClassMembershipStore {
+  constructor(private storage: Storage = window.localStorage, private prefix = "ielts-game:class:") {}
+
+  private read<T>(key: string): T | null {
+    try {
+      const raw = this.storage.getItem(`${this.prefix}${key}`);
+      return raw ? JSON.parse(raw) : null;
+    } catch (error) {
+      console.warn("Failed to load class membership:", error);
+      return null;
+    }
+  }
+
+  teacherClass(): TeacherClass | null {
+    return this.read<TeacherClass>("teacher");
+  }
+
+  saveTeacherClass(teacherClass: TeacherClass | null): void {
+    if (teacherClass) this.storage.setItem(`${this.prefix}teacher`, JSON.stringify(teacherClass));
+    else this.storage.removeItem(`${this.prefix}teacher`);
+  }
+
+  joinedClass(playerId: string): ClassInfo | null {
+    return this.read<ClassInfo>(`player:${playerId}`);
+  }
+
+  saveJoinedClass(playerId: string, classInfo: ClassInfo | null): void {
+    if (classInfo) this.storage.setItem(`${this.prefix}player:${playerId}`, JSON.stringify(classInfo));
+    else this.storage.removeItem(`${this.prefix}player:${playerId}`);
+  }
+}
+
+export const classService = new ClassService(process.env.VITE_API_BASE_URL || "");
+export const classMembershipStore = new ClassMembershipStore();
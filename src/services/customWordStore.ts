@@ -0,0 +1,32 @@
+import { CustomWordList, RawWord } from "../types";
+
+// The imported word list that currently replaces Sheets/Gemini as the level source
+
+export class CustomWordStore {
+  constructor(private storage: Storage = window.localStorage, private key = "ielts-game:custom-words") {}
+
+  load(): CustomWordList | null {
+    try {
+      const raw = this.storage.getItem(this.key);
+      const parsed = raw ? JSON.parse(raw) : null;
+      return parsed && Array.isArray(parsed.levels) ? parsed : null;
+    } catch (error) {
+      console.warn("Failed to load custom word list:", error);
+      return null;
+    }
+  }
+
+  save(list: CustomWordList): void {
+    this.storage.setItem(this.key, JSON.stringify(list));
+  }
+
+  clear(): void {
+    this.storage.removeItem(this.key);
+  }
+
+  levelWords(level: number): RawWord[] | null {
+    return this.load()?.levels[level - 1] ?? null;
+  }
+}
+
+export const customWordStore = new CustomWordStore();
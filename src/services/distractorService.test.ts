@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  DISTRACTOR_COUNT,
+  DistractorService,
+  MemoryDistractorCache,
+  StubDistractorProvider,
+  cacheKey,
+  resolveStrategy
+} from "./distractorService";
+import type { RawWord } from "../types";
+
+const WORDS: RawWord[] = Array.from({ length: 5 }, (_, i) => ({ word: `word${i}`, translation: `词义${i}` }));
+
+// The stub provider, counting calls and tracking how many per-word requests run at once
+class CountingProvider extends StubDistractorProvider {
+  batches: RawWord[][] = [];
+  generated: string[] = [];
+  inFlight = 0;
+  maxInFlight = 0;
+  // Words the batch leaves out, so they go through `generate`
+  skipInBatch = new Set<string>();
+  failing = new Set<string>();
+
+  async generateBatch(words: RawWord[]): Promise<Map<string, string[]>> {
+    this.batches.push(words);
+    const batch = await super.generateBatch(words);
+    this.skipInBatch.forEach(word => batch.delete(word));
+    return batch;
+  }
+
+  async generate(word: RawWord): Promise<string[]> {
+    this.generated.push(word.word);
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    this.inFlight--;
+    if (this.failing.has(word.word)) throw new Error("Gemini is down");
+    return super.generate(word);
+  }
+}
+
+let provider: CountingProvider;
+let cache: MemoryDistractorCache;
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  provider = new CountingProvider();
+  cache = new MemoryDistractorCache();
+});
+
+describe("DistractorService", () => {
+  it("sends missing words in batches of batchSize", async () => {
+    const service = new DistractorService(provider, cache, { batchSize: 2 });
+    const distractors = await service.getDistractors(WORDS);
+
+    expect(provider.batches.map(b => b.map(w => w.word))).toEqual([["word0", "word1"], ["word2", "word3"], ["word4"]]);
+    expect(provider.generated).toEqual([]);
+    expect(distractors).toHaveLength(WORDS.length);
+    distractors.forEach(d => expect(d).toEqual(["选项甲", "答案乙", "词义丙"]));
+  });
+
+  it("retries words the batch missed with at most `concurrency` requests at once", async () => {
+    WORDS.forEach(w => provider.skipInBatch.add(w.word));
+    const service = new DistractorService(provider, cache, { concurrency: 2 });
+    await service.getDistractors(WORDS);
+
+    expect(provider.generated.sort()).toEqual(WORDS.map(w => w.word));
+    expect(provider.maxInFlight).toBe(2);
+  });
+
+  it("answers cached words without asking the provider", async () => {
+    await cache.set(new Map([[cacheKey(WORDS[0]), ["缓存一", "缓存二", "缓存三"]]]));
+    const service = new DistractorService(provider, cache);
+    const distractors = await service.getDistractors(WORDS.slice(0, 2));
+
+    expect(distractors[0]).toEqual(["缓存一", "缓存二", "缓存三"]);
+    expect(provider.batches).toEqual([[WORDS[1]]]);
+
+    provider.batches = [];
+    await service.getDistractors(WORDS.slice(0, 2));
+    expect(provider.batches).toEqual([]);
+  });
+
+  it("falls back per word when the provider fails for it", async () => {
+    provider.skipInBatch.add("word1");
+    provider.failing.add("word1");
+    const fallback = new StubDistractorProvider();
+    vi.spyOn(fallback, "generate").mockResolvedValue(["后备一", "后备二", "后备三"]);
+    const service = new DistractorService(provider, cache, { fallback });
+    const distractors = await service.getDistractors(WORDS.slice(0, 2));
+
+    expect(distractors[0]).toEqual(["选项甲", "答案乙", "词义丙"]);
+    expect(distractors[1]).toEqual(["后备一", "后备二", "后备三"]);
+    expect(fallback.generate).toHaveBeenCalledTimes(1);
+    // Fallback options depend on the pool, so only the provider's answer is cached
+    expect([...(await cache.get(WORDS.slice(0, 2).map(cacheKey))).keys()]).toEqual([cacheKey(WORDS[0])]);
+  });
+
+  it("tops a failing fallback up with local options", async () => {
+    provider.skipInBatch.add("word0");
+    provider.failing.add("word0");
+    const fallback = new StubDistractorProvider();
+    vi.spyOn(fallback, "generate").mockRejectedValue(new Error("offline"));
+    const service = new DistractorService(provider, cache, { fallback });
+    const [distractors] = await service.getDistractors([WORDS[0]]);
+
+    expect(distractors).toHaveLength(DISTRACTOR_COUNT);
+    expect(distractors).not.toContain(WORDS[0].translation);
+  });
+});
+
+describe("StubDistractorProvider", () => {
+  it("never offers the correct answer as a distractor", async () => {
+    const options = await new StubDistractorProvider().generate({ word: "option", translation: "选项甲" });
+    expect(options).toEqual(["答案乙", "词义丙", "解释丁"]);
+  });
+});
+
+describe("resolveStrategy", () => {
+  it("only uses Gemini when it is configured", () => {
+    expect(resolveStrategy(undefined, true)).toBe("gemini");
+    expect(resolveStrategy(undefined, false)).toBe("local");
+    expect(resolveStrategy("stub", true)).toBe("stub");
+  });
+});
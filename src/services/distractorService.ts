@@ -0,0 +1,252 @@
+import { RawWord } from "../types";
+import { mapWithConcurrency } from "../utils";
+import { GeminiService, geminiService } from "./geminiService";
+import { isNearDuplicate, pickLocalDistractors } from "./localDistractors";
+
+export const DISTRACTOR_COUNT = 3;
+
+export type DistractorStrategy = "gemini" | "local" | "stub";
+
+// `pool` is the word bank of the level being played plus its neighbours.
+// Network providers may ignore it.
+export interface DistractorProvider {
+  // Returns distractors keyed by lower-cased word; may omit words
+  generateBatch(words: RawWord[], pool: RawWord[]): Promise<Map<string, string[]>>;
+  generate(word: RawWord, pool: RawWord[]): Promise<string[]>;
+}
+
+export interface DistractorCache {
+  get(keys: string[]): Promise<Map<string, string[]>>;
+  set(entries: Map<string, string[]>): Promise<void>;
+}
+
+export function cacheKey(word: RawWord): string {
+  return `${word.word.trim().toLowerCase()}|${word.translation.trim()}`;
+}
+
+function wordKey(word: RawWord): string {
+  return word.word.trim().toLowerCase();
+}
+
+// Drops blanks, repeats and anything that reads like the correct answer
+function clean(word: RawWord, distractors: string[]): string[] {
+  const result: string[] = [];
+  for (const d of distractors.map(d => d.trim())) {
+    if (!d || isNearDuplicate(d, word.translation)) continue;
+    if (result.some(r => isNearDuplicate(r, d))) continue;
+    result.push(d);
+  }
+  return result.slice(0, DISTRACTOR_COUNT);
+}
+
+function isUsable(word: RawWord, distractors: string[] | undefined): distractors is string[] {
+  return !!distractors && clean(word, distractors).length >= DISTRACTOR_COUNT;
+}
+
+export class LocalDistractorProvider implements DistractorProvider {
+  constructor(private random: () => number = Math.random) {}
+
+  async generateBatch(words: RawWord[], pool: RawWord[]): Promise<Map<string, string[]>> {
+    return new Map(words.map(w => [wordKey(w), pickLocalDistractors(w, pool, DISTRACTOR_COUNT, this.random)]));
+  }
+
+  async generate(word: RawWord, pool: RawWord[]): Promise<string[]> {
+    return pickLocalDistractors(word, pool, DISTRACTOR_COUNT, this.random);
+  }
+}
+
+export class GeminiDistractorProvider implements DistractorProvider {
+  constructor(private gemini: GeminiService = geminiService) {}
+
+  generateBatch(words: RawWord[]): Promise<Map<string, string[]>> {
+    return this.gemini.generateDistractorsBatch(words);
+  }
+
+  generate(word: RawWord): Promise<string[]> {
+    return this.gemini.generateDistractors(word.word, word.translation);
+  }
+}
+
+const STUB_OPTIONS = ["选项甲", "答案乙", "词义丙", "解释丁"];
+
+// Deterministic provider for loading levels without network
+export class StubDistractorProvider implements DistractorProvider {
+  async generateBatch(words: RawWord[]): Promise<Map<string, string[]>> {
+    return new Map(words.map(w => [wordKey(w), this.options(w)]));
+  }
+
+  async generate(word: RawWord): Promise<string[]> {
+    return this.options(word);
+  }
+
+  private options(word: RawWord): string[] {
+    return STUB_OPTIONS.filter(o => o !== word.translation).slice(0, DISTRACTOR_COUNT);
+  }
+}
+
+export class MemoryDistractorCache implements DistractorCache {
+  private data = new Map<string, string[]>();
+
+  async get(keys: string[]): Promise<Map<string, string[]>> {
+    const hits = new Map<string, string[]>();
+    for (const key of keys) {
+      const value = this.data.get(key);
+      if (value) hits.set(key, value);
+    }
+    return hits;
+  }
+
+  async set(entries: Map<string, string[]>): Promise<void> {
+    entries.forEach((value, key) => this.data.set(key, value));
+  }
+}
+
+const DB_NAME = "ielts-game";
+const STORE_NAME = "distractors";
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IndexedDbDistractorCache implements DistractorCache {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      this.db = promisify(request);
+    }
+    return this.db;
+  }
+
+  async get(keys: string[]): Promise<Map<string, string[]>> {
+    const store = (await this.open()).transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+    const values = await Promise.all(keys.map(key => promisify<string[] | undefined>(store.get(key))));
+    const hits = new Map<string, string[]>();
+    keys.forEach((key, i) => {
+      if (Array.isArray(values[i])) hits.set(key, values[i]!);
+    });
+    return hits;
+  }
+
+  async set(entries: Map<string, string[]>): Promise<void> {
+    const tx = (await this.open()).transaction(STORE_NAME, "readwrite");
+    const store = tx.objectStore(STORE_NAME);
+    entries.forEach((value, key) => store.put(value, key));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+}
+
+export interface DistractorServiceOptions {
+  batchSize?: number;
+  concurrency?: number;
+  // Used per word when the main provider fails or returns unusable options; local by default
+  fallback?: DistractorProvider;
+}
+
+export class DistractorService {
+  private batchSize: number;
+  private concurrency: number;
+  private fallback: DistractorProvider;
+
+  constructor(
+    private provider: DistractorProvider,
+    private cache: DistractorCache,
+    { batchSize = 50, concurrency = 4, fallback = new LocalDistractorProvider() }: DistractorServiceOptions = {}
+  ) {
+    this.batchSize = batchSize;
+    this.concurrency = concurrency;
+    this.fallback = fallback;
+  }
+
+  // Distractors for every word, in order. Cached words cost nothing, the rest
+  // go out in batched prompts and anything the batch missed is retried per
+  // word with at most `concurrency` requests in flight.
+  async getDistractors(words: RawWord[], pool: RawWord[] = words): Promise<string[][]> {
+    const keys = words.map(cacheKey);
+    const found = await this.cache.get(keys).catch(error => {
+      console.warn("Distractor cache unavailable:", error);
+      return new Map<string, string[]>();
+    });
+
+    const missing = words.filter((w, i) => !isUsable(w, found.get(keys[i])));
+    const fresh = new Map<string, string[]>();
+
+    for (let i = 0; i < missing.length; i += this.batchSize) {
+      const chunk = missing.slice(i, i + this.batchSize);
+      try {
+        const batch = await this.provider.generateBatch(chunk, pool);
+        for (const w of chunk) {
+          const distractors = batch.get(wordKey(w));
+          if (isUsable(w, distractors)) fresh.set(cacheKey(w), clean(w, distractors));
+        }
+      } catch (error) {
+        console.error("Batched distractor generation failed:", error);
+      }
+    }
+
+    const stillMissing = missing.filter(w => !fresh.has(cacheKey(w)));
+    const perWord = await mapWithConcurrency(stillMissing, this.concurrency, w =>
+      this.provider.generate(w, pool).catch(error => {
+        console.error(`Error generating distractors for "${w.word}":`, error);
+        return [] as string[];
+      })
+    );
+    stillMissing.forEach((w, i) => {
+      if (isUsable(w, perWord[i])) fresh.set(cacheKey(w), clean(w, perWord[i]));
+    });
+
+    if (fresh.size > 0) {
+      await this.cache.set(fresh).catch(error => console.warn("Failed to cache distractors:", error));
+    }
+
+    // Fallback results depend on the pool, so they are not cached. Local options are
+    // topped up from the bundled words, so a short pool still gives a full set.
+    return Promise.all(keys.map(async (key, i) => {
+      const distractors = fresh.get(key) ?? found.get(key);
+      if (isUsable(words[i], distractors)) return clean(words[i], distractors);
+
+      const fallback = await this.fallback.generate(words[i], pool).catch(error => {
+        console.error(`Fallback distractors failed for "${words[i].word}":`, error);
+        return [] as string[];
+      });
+      return clean(words[i], [...fallback, ...pickLocalDistractors(words[i], pool, DISTRACTOR_COUNT)]);
+    }));
+  }
+}
+
+// VITE_DISTRACTOR_PROVIDER picks the strategy; without a configured Gemini it is never tried
+export function resolveStrategy(configured: string | undefined, geminiAvailable: boolean): DistractorStrategy {
+  if (configured === "stub" || configured === "local") return configured;
+  return geminiAvailable ? "gemini" : "local";
+}
+
+function createProvider(strategy: DistractorStrategy): DistractorProvider {
+  switch (strategy) {
+    case "stub":
+      return new StubDistractorProvider();
+    case "local":
+      return new LocalDistractorProvider();
+    default:
+      return new GeminiDistractorProvider();
+  }
+}
+
+const strategy = resolveStrategy(process.env.VITE_DISTRACTOR_PROVIDER, geminiService.available);
+
+// Only Gemini results are worth persisting to IndexedDB
+export const distractorService = new DistractorService(
+  createProvider(strategy),
+  strategy === "gemini" && typeof indexedDB !== "undefined" ? new IndexedDbDistractorCache() : new MemoryDistractorCache()
+);
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  GeminiAuthError,
+  GeminiConfigError,
+  GeminiRateLimitError,
+  GeminiResponseError,
+  GeminiService,
+  GeminiTimeoutError,
+  MockGeminiProvider,
+  MockResponder,
+  createGeminiService,
+  resolveGeminiConfig
+} from "./geminiService";
+
+const OPTIONS = { timeoutMs: 1000, retries: 2, baseDelayMs: 0 };
+
+function serviceWith(respond: MockResponder, options: Partial<typeof OPTIONS> = {}, latencyMs = 0) {
+  const provider = new MockGeminiProvider(respond, latencyMs);
+  return { provider, service: new GeminiService(provider, { ...OPTIONS, ...options }) };
+}
+
+describe("GeminiService with the mock provider", () => {
+  it("returns validated distractors", async () => {
+    const { service, provider } = serviceWith(() => [" 放弃 ", "好处", "容量"]);
+    await expect(service.generateDistractors("approach", "接近")).resolves.toEqual(["放弃", "好处", "容量"]);
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].task).toBe("distractors");
+  });
+
+  it("retries malformed JSON and fails with GeminiResponseError once retries run out", async () => {
+    const { service, provider } = serviceWith(() => "not json {");
+    const error = await service.generateDistractors("approach", "接近").catch(e => e);
+    expect(error).toBeInstanceOf(GeminiResponseError);
+    expect(error.message).toContain("not JSON");
+    expect(provider.requests).toHaveLength(3);
+  });
+
+  it("rejects answers that are not the expected shape", async () => {
+    const { service } = serviceWith(() => ({ distractors: ["a"] }), { retries: 0 });
+    await expect(service.generateDistractors("approach", "接近")).rejects.toThrow("expected a JSON array");
+  });
+
+  it("drops invalid items but keeps the valid ones", async () => {
+    const { service } = serviceWith(() => [
+      { word: "approach", distractors: ["离开", "", 3, "远离"] },
+      { word: "", distractors: ["空"] },
+      { distractors: ["没有单词"] },
+      "garbage"
+    ]);
+    const result = await service.generateDistractorsBatch([{ word: "approach", translation: "接近" }]);
+    expect([...result]).toEqual([["approach", ["离开", "远离"]]]);
+  });
+
+  it("fails when no item is valid", async () => {
+    const { service } = serviceWith(() => [{ word: 1 }, null], { retries: 0 });
+    await expect(service.generateWordDetailsBatch([{ word: "approach", translation: "接近" }]))
+      .rejects.toBeInstanceOf(GeminiResponseError);
+  });
+
+  it("runs generated level words through the sheet row checks", async () => {
+    const { service } = serviceWith(() => [
+      { word: "approach", translation: "接近; 进入" },
+      { word: "123", translation: "数字" }
+    ]);
+    await expect(service.generateLevelWords({ exam: "IELTS", level: 1, levelCount: 10, count: 2 }))
+      .resolves.toEqual([{ word: "approach", translation: "接近；进入" }]);
+  });
+
+  it("retries after a 429 and succeeds", async () => {
+    let calls = 0;
+    const { service, provider } = serviceWith(() => {
+      calls++;
+      if (calls < 3) throw new GeminiRateLimitError("429 Too Many Requests");
+      return ["甲", "乙", "丙"];
+    });
+    await expect(service.generateDistractors("approach", "接近")).resolves.toEqual(["甲", "乙", "丙"]);
+    expect(provider.requests).toHaveLength(3);
+  });
+
+  it("gives up on rate limits after the configured retries", async () => {
+    const { service, provider } = serviceWith(() => {
+      throw new GeminiRateLimitError("429");
+    }, { retries: 1 });
+    await expect(service.generateDistractors("approach", "接近")).rejects.toBeInstanceOf(GeminiRateLimitError);
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it("turns a slow answer into GeminiTimeoutError", async () => {
+    const { service, provider } = serviceWith(() => ["甲", "乙", "丙"], { timeoutMs: 10, retries: 1 }, 200);
+    const error = await service.generateDistractors("approach", "接近").catch(e => e);
+    expect(error).toBeInstanceOf(GeminiTimeoutError);
+    expect(error.retryable).toBe(true);
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it("does not retry auth errors", async () => {
+    const { service, provider } = serviceWith(() => {
+      throw new GeminiAuthError("API key not valid", 403);
+    });
+    await expect(service.generateDistractors("approach", "接近")).rejects.toMatchObject({ name: "GeminiAuthError", status: 403 });
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it("does not retry config errors", async () => {
+    const { service, provider } = serviceWith(() => {
+      throw new GeminiConfigError("Gemini rejected the request (400)");
+    });
+    await expect(service.generateDistractors("approach", "接近")).rejects.toBeInstanceOf(GeminiConfigError);
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it("fails with GeminiConfigError when no provider is configured", async () => {
+    const service = createGeminiService(resolveGeminiConfig({}));
+    expect(service.available).toBe(false);
+    await expect(service.generateDistractors("approach", "接近")).rejects.toBeInstanceOf(GeminiConfigError);
+  });
+});
+
+describe("resolveGeminiConfig", () => {
+  it("reads the model, timeout and provider from the environment", () => {
+    expect(resolveGeminiConfig({ GEMINI_API_KEY: "k", GEMINI_MODEL: "m", GEMINI_TIMEOUT_MS: "5000", VITE_GEMINI_PROVIDER: "mock" }))
+      .toMatchObject({ apiKey: "k", model: "m", timeoutMs: 5000, provider: "mock" });
+    expect(resolveGeminiConfig({ GEMINI_TIMEOUT_MS: "soon" }).timeoutMs).toBe(20000);
+  });
+
+  it("uses the mock provider without an API key", async () => {
+    const service = createGeminiService(resolveGeminiConfig({ VITE_GEMINI_PROVIDER: "mock" }));
+    await expect(service.generateDistractors("approach", "接近")).resolves.toHaveLength(3);
+  });
+});
@@ -1,54 +1,411 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { ApiError, GoogleGenAI, Schema, Type } from "@google/genai";
+import { RawWord, WordDetails } from "../types";
+import { sleep, withRetry } from "../utils";
+import { parseWordRows } from "./sheetsService";
 
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+// All Gemini calls go through GeminiService: every response is parsed and
+// checked against the expected shape, slow calls time out, and transient
+// failures are retried with backoff. Failures surface as GeminiError
+// subclasses whose userMessage the UI can show as is.
 
-export async function generateDistractors(word: string, translation: string): Promise<string[]> {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `为英语单词 "${word}" (中文意思: "${translation}") 生成3个具有迷惑性的中文词义选项。
-      要求：
-      1. 选项必须是中文。
-      2. 选项应与原意在词性或语境上相似，具有挑战性。
-      3. 只要返回一个JSON数组，包含这3个干扰项。`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING }
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
+
+export interface GeminiConfig {
+  // "mock" answers every request locally, for development and tests without network
+  provider: "google" | "mock";
+  apiKey: string;
+  model: string;
+  timeoutMs: number;
+  retries: number;
+  baseDelayMs: number;
+}
+
+// GEMINI_API_KEY, GEMINI_MODEL, GEMINI_TIMEOUT_MS and VITE_GEMINI_PROVIDER from .env.local
+export function resolveGeminiConfig(env: Record<string, string | undefined>): GeminiConfig {
+  const timeoutMs = Number(env.GEMINI_TIMEOUT_MS);
+  return {
+    provider: env.VITE_GEMINI_PROVIDER === "mock" ? "mock" : "google",
+    apiKey: env.GEMINI_API_KEY || "",
+    model: env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : 20000,
+    retries: 2,
+    baseDelayMs: 800
+  };
+}
+
+export class GeminiError extends Error {
+  constructor(message: string, public retryable: boolean, public userMessage: string) {
+    super(message);
+    this.name = "GeminiError";
+  }
+}
+
+// No API key, or a request the API rejects as malformed (e.g. an unknown model)
+export class GeminiConfigError extends GeminiError {
+  constructor(message: string) {
+    super(message, false, "AI 出题服务没有配置好（缺少 API Key 或模型名称不正确）。");
+    this.name = "GeminiConfigError";
+  }
+}
+
+export class GeminiAuthError extends GeminiError {
+  constructor(message: string, public status: number) {
+    super(message, false, "Gemini API Key 无效或没有权限，请检查配置。");
+    this.name = "GeminiAuthError";
+  }
+}
+
+export class GeminiRateLimitError extends GeminiError {
+  constructor(message: string) {
+    super(message, true, "AI 出题请求太频繁了，请稍等片刻再试。");
+    this.name = "GeminiRateLimitError";
+  }
+}
+
+export class GeminiTimeoutError extends GeminiError {
+  constructor(timeoutMs: number) {
+    super(`Gemini did not answer within ${timeoutMs} ms`, true, "AI 出题响应超时，请检查网络后重试。");
+    this.name = "GeminiTimeoutError";
+  }
+}
+
+// Connection failures and 5xx responses
+export class GeminiNetworkError extends GeminiError {
+  constructor(message: string, public status?: number) {
+    super(message, true, "暂时连不上 AI 出题服务，请检查网络后重试。");
+    this.name = "GeminiNetworkError";
+  }
+}
+
+// The model answered, but not with JSON of the expected shape
+export class GeminiResponseError extends GeminiError {
+  constructor(message: string) {
+    super(message, true, "AI 返回的题目格式不正确，请重试。");
+    this.name = "GeminiResponseError";
+  }
+}
+
+export interface LevelWordsRequest {
+  // Exam the words are for, e.g. 雅思
+  exam: string;
+  level: number;
+  levelCount: number;
+  count: number;
+}
+
+// What is being asked travels with the prompt so the mock provider can answer in kind
+export type GeminiRequest = { prompt: string; schema: Schema } & (
+  | { task: "distractors"; word: RawWord }
+  | { task: "distractorBatch"; words: RawWord[] }
+  | { task: "wordDetails"; words: RawWord[] }
+  | { task: "levelWords"; request: LevelWordsRequest }
+);
+
+export interface GeminiProvider {
+  // Returns the raw response text; throws GeminiError on failure
+  generate(request: GeminiRequest, signal: AbortSignal): Promise<string>;
+}
+
+function toGeminiError(error: unknown): unknown {
+  if (error instanceof GeminiError) return error;
+  if (error instanceof ApiError) {
+    if (error.status === 401 || error.status === 403) return new GeminiAuthError(error.message, error.status);
+    if (error.status === 429) return new GeminiRateLimitError(error.message);
+    if (error.status >= 500) return new GeminiNetworkError(error.message, error.status);
+    return new GeminiConfigError(`Gemini rejected the request (${error.status}): ${error.message}`);
+  }
+  // fetch() rejects with a TypeError when the network is down
+  if (error instanceof TypeError) return new GeminiNetworkError(error.message);
+  return error;
+}
+
+export class GoogleGeminiProvider implements GeminiProvider {
+  // Created lazily: the SDK throws on construction when no key is configured,
+  // which would otherwise break the app even when Gemini is never used.
+  private client: GoogleGenAI | null = null;
+
+  constructor(private apiKey: string, private model: string) {}
+
+  async generate(request: GeminiRequest, signal: AbortSignal): Promise<string> {
+    if (!this.apiKey) throw new GeminiConfigError("GEMINI_API_KEY is not set");
+    this.client ??= new GoogleGenAI({ apiKey: this.apiKey });
+    try {
+      const response = await this.client.models.generateContent({
+        model: this.model,
+        contents: request.prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: request.schema,
+          abortSignal: signal
         }
-      }
-    });
+      });
+      return response.text ?? "";
+    } catch (error) {
+      throw toGeminiError(error);
+    }
+  }
+}
 
-    const distractors = JSON.parse(response.text || "[]");
-    return distractors;
+export type MockResponder = (request: GeminiRequest) => unknown | Promise<unknown>;
+
+// Answers with placeholder data of the right shape
+export const defaultMockResponder: MockResponder = request => {
+  switch (request.task) {
+    case "distractors":
+      return ["模拟选项一", "模拟选项二", "模拟选项三"];
+    case "distractorBatch":
+      return request.words.map(w => ({ word: w.word, distractors: ["模拟选项一", "模拟选项二", "模拟选项三"] }));
+    case "wordDetails":
+      return request.words.map(w => ({
+        word: w.word,
+        partOfSpeech: "n.",
+        example: `This sentence uses the word ${w.word}.`,
+        exampleTranslation: `这个句子用到了 ${w.word}（${w.translation}）。`
+      }));
+    case "levelWords":
+      // Sheet rows only accept letters in the English column
+      return Array.from({ length: request.request.count }, (_, i) => ({
+        word: `mock${request.request.level}x${i + 1}`.replace(/\d/g, d => "abcdefghij"[Number(d)]),
+        translation: `模拟词义${i + 1}`
+      }));
+  }
+};
+
+// Never touches the network. Tests pass a responder that returns canned
+// data, malformed data, or throws GeminiError subclasses; strings are used as
+// the raw response text, anything else is serialized to JSON.
+export class MockGeminiProvider implements GeminiProvider {
+  requests: GeminiRequest[] = [];
+
+  constructor(private respond: MockResponder = defaultMockResponder, private latencyMs = 0) {}
+
+  async generate(request: GeminiRequest): Promise<string> {
+    this.requests.push(request);
+    if (this.latencyMs > 0) await sleep(this.latencyMs);
+    const data = await this.respond(request);
+    return typeof data === "string" ? data : JSON.stringify(data);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFilled(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
   } catch (error) {
-    console.error("Error generating distractors:", error);
-    return ["错误选项1", "错误选项2", "错误选项3"];
-  }
-}
-
-export async function generateLevelWords(level: number): Promise<any[]> {
-  // This is a helper to generate mock data if Google Sheets is not available
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `生成50个适合雅思第${level}关（难度1-10）的英语单词及其中文翻译。
-    返回JSON格式：[{word: "word", translation: "translation"}]`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            word: { type: Type.STRING },
-            translation: { type: Type.STRING }
-          },
-          required: ["word", "translation"]
-        }
+    throw new GeminiResponseError(`Response is not JSON: ${(error as Error).message}`);
+  }
+}
+
+// Drops malformed items, but an answer with nothing usable at all is an error (and retried)
+function validItems<T>(data: unknown, what: string, parse: (item: unknown) => T | null): T[] {
+  if (!Array.isArray(data)) throw new GeminiResponseError(`${what}: expected a JSON array`);
+  const items = data.map(parse).filter((item): item is T => item !== null);
+  if (items.length === 0) throw new GeminiResponseError(`${what}: no valid items in ${data.length} returned`);
+  if (items.length < data.length) console.warn(`${what}: ignored ${data.length - items.length} malformed items`);
+  return items;
+}
+
+const STRING_ARRAY_SCHEMA: Schema = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+const DISTRACTOR_BATCH_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      word: { type: Type.STRING },
+      distractors: { type: Type.ARRAY, items: { type: Type.STRING } }
+    },
+    required: ["word", "distractors"]
+  }
+};
+
+const WORD_DETAILS_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      word: { type: Type.STRING },
+      partOfSpeech: { type: Type.STRING },
+      example: { type: Type.STRING },
+      exampleTranslation: { type: Type.STRING }
+    },
+    required: ["word", "partOfSpeech", "example", "exampleTranslation"]
+  }
+};
+
+const LEVEL_WORDS_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      word: { type: Type.STRING },
+      translation: { type: Type.STRING }
+    },
+    required: ["word", "translation"]
+  }
+};
+
+export class GeminiService {
+  constructor(
+    // null when Gemini is not configured; every call then fails with GeminiConfigError
+    private provider: GeminiProvider | null,
+    private options: Pick<GeminiConfig, "timeoutMs" | "retries" | "baseDelayMs">
+  ) {}
+
+  get available(): boolean {
+    return this.provider !== null;
+  }
+
+  async generateDistractors(word: string, translation: string): Promise<string[]> {
+    return this.request(
+      {
+        task: "distractors",
+        word: { word, translation },
+        schema: STRING_ARRAY_SCHEMA,
+        prompt: `为英语单词 "${word}" (中文意思: "${translation}") 生成3个具有迷惑性的中文词义选项。
+    要求：
+    1. 选项必须是中文。
+    2. 选项应与原意在词性或语境上相似，具有挑战性。
+    3. 只要返回一个JSON数组，包含这3个干扰项。`
+      },
+      data => validItems(data, "distractors", item => (isFilled(item) ? item.trim() : null))
+    );
+  }
+
+  // One request for a whole level. Words the model skips or answers badly are
+  // simply absent from the result; callers fall back to generateDistractors.
+  async generateDistractorsBatch(words: RawWord[]): Promise<Map<string, string[]>> {
+    const list = words.map(w => `${w.word}: ${w.translation}`).join("\n");
+    const items = await this.request(
+      {
+        task: "distractorBatch",
+        words,
+        schema: DISTRACTOR_BATCH_SCHEMA,
+        prompt: `为下面每个英语单词（冒号后是它的中文意思）各生成3个具有迷惑性的中文词义选项。
+    要求：
+    1. 选项必须是中文，且不能与正确意思相同或近义。
+    2. 选项应与原意在词性或语境上相似，具有挑战性。
+    3. 返回JSON数组：[{word: "word", distractors: ["...", "...", "..."]}]
+    单词列表：
+    ${list}`
+      },
+      data => validItems(data, "distractor batch", item =>
+        isRecord(item) && isFilled(item.word) && Array.isArray(item.distractors)
+          ? { word: item.word, distractors: item.distractors.filter(isFilled) }
+          : null
+      )
+    );
+    return new Map(items.map(item => [item.word.trim().toLowerCase(), item.distractors]));
+  }
+
+  // Part of speech and an example sentence per word, for the answer feedback.
+  // Keys are lower-cased words; words the model skips are absent.
+  async generateWordDetailsBatch(words: RawWord[]): Promise<Map<string, WordDetails>> {
+    const list = words.map(w => `${w.word}: ${w.translation}`).join("\n");
+    const items = await this.request(
+      {
+        task: "wordDetails",
+        words,
+        schema: WORD_DETAILS_SCHEMA,
+        prompt: `为下面每个英语单词（冒号后是它的中文意思）给出词性和一个适合雅思考生的英文例句。
+    要求：
+    1. partOfSpeech 使用缩写，例如 n. / v. / adj. / adv.，与给出的中文意思一致。
+    2. example 是一句简短自然的英文句子，必须包含该单词。
+    3. exampleTranslation 是例句的中文翻译。
+    单词列表：
+    ${list}`
+      },
+      data => validItems(data, "word details", item =>
+        isRecord(item) && isFilled(item.word) && isFilled(item.example)
+          ? {
+              word: item.word,
+              details: {
+                partOfSpeech: isFilled(item.partOfSpeech) ? item.partOfSpeech : undefined,
+                example: item.example,
+                exampleTranslation: isFilled(item.exampleTranslation) ? item.exampleTranslation : undefined
+              }
+            }
+          : null
+      )
+    );
+    return new Map(items.map(item => [item.word.trim().toLowerCase(), item.details]));
+  }
+
+  // Used when neither a sheet nor the bundled words have the level. Rows go
+  // through the same checks as a sheet, so odd words never reach a question.
+  async generateLevelWords(request: LevelWordsRequest): Promise<RawWord[]> {
+    const { exam, level, levelCount, count } = request;
+    return this.request(
+      {
+        task: "levelWords",
+        request,
+        schema: LEVEL_WORDS_SCHEMA,
+        prompt: `生成${count}个适合${exam}第${level}关（难度1-${levelCount}）的英语单词及其中文翻译。
+    返回JSON格式：[{word: "word", translation: "translation"}]`
+      },
+      data => {
+        const rows = validItems(data, "level words", item =>
+          isRecord(item) && isFilled(item.word) && isFilled(item.translation) ? [item.word, item.translation] : null
+        );
+        const { words, errors } = parseWordRows(rows);
+        if (words.length === 0) throw new GeminiResponseError(`level words: all ${rows.length} rows were invalid`);
+        if (errors.length > 0) console.warn(`Gemini level words: ignored ${errors.length} invalid rows`, errors);
+        return words;
       }
+    );
+  }
+
+  private async request<T>(request: GeminiRequest, parse: (data: unknown) => T): Promise<T> {
+    const provider = this.provider;
+    if (!provider) throw new GeminiConfigError("Gemini is not configured");
+
+    return withRetry(
+      async () => parse(parseJson(await this.withTimeout(signal => provider.generate(request, signal)))),
+      {
+        retries: this.options.retries,
+        baseDelayMs: this.options.baseDelayMs,
+        shouldRetry: error => error instanceof GeminiError && error.retryable
+      }
+    );
+  }
+
+  // Aborts the request too, so a timed-out call does not keep the connection busy
+  private async withTimeout(call: (signal: AbortSignal) => Promise<string>): Promise<string> {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new GeminiTimeoutError(this.options.timeoutMs));
+      }, this.options.timeoutMs);
+    });
+    try {
+      return await Promise.race([call(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
     }
-  });
+  }
+}
 
-  return JSON.parse(response.text || "[]");
+export function createGeminiService(config: GeminiConfig): GeminiService {
+  const provider = config.provider === "mock"
+    ? new MockGeminiProvider()
+    : config.apiKey
+      ? new GoogleGeminiProvider(config.apiKey, config.model)
+      : null;
+  return new GeminiService(provider, config);
 }
+
+export const geminiService = createGeminiService(resolveGeminiConfig({
+  GEMINI_API_KEY: process.env.GEMINI_API_KEY,
+  GEMINI_MODEL: process.env.GEMINI_MODEL,
+  GEMINI_TIMEOUT_MS: process.env.GEMINI_TIMEOUT_MS,
+  VITE_GEMINI_PROVIDER: process.env.VITE_GEMINI_PROVIDER
+}));
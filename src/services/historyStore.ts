@@ -0,0 +1,50 @@
+import { LevelResult } from "../types";
+
+// Finished levels are also kept in the browser so the summary dashboard works
+// offline and for players who never reach the backend.
+
+const MAX_ENTRIES = 200;
+
+export class HistoryStore {
+  constructor(private storage: Storage = window.localStorage, private prefix = "ielts-game:history:") {}
+
+  private key(playerId: string): string {
+    return `${this.prefix}${playerId}`;
+  }
+
+  list(playerId: string): LevelResult[] {
+    try {
+      const raw = this.storage.getItem(this.key(playerId));
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn("Failed to load history:", error);
+      return [];
+    }
+  }
+
+  add(playerId: string, result: LevelResult): void {
+    const entries = [...this.list(playerId), result].slice(-MAX_ENTRIES);
+    try {
+      this.storage.setItem(this.key(playerId), JSON.stringify(entries));
+    } catch (error) {
+      console.warn("Failed to save history:", error);
+    }
+  }
+
+  reset(playerId: string): void {
+    this.storage.removeItem(this.key(playerId));
+  }
+}
+
+// Combine local and backend history, dropping duplicates of the same attempt
+export function mergeHistory(...sources: LevelResult[][]): LevelResult[] {
+  const seen = new Map<string, LevelResult>();
+  for (const result of sources.flat()) {
+    const key = `${result.record.playerId}:${result.record.playerNo}`;
+    if (!seen.has(key)) seen.set(key, result);
+  }
+  return [...seen.values()].sort((a, b) => Number(a.record.playerNo) - Number(b.record.playerNo));
+}
+
+export const historyStore = new HistoryStore();
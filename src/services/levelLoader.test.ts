@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { LevelLoader, LevelLoaderDeps, NoWordsError } from "./levelLoader";
+import { getTrack } from "../game/curriculum";
+import type { Assignment, CustomWordList, LevelPack, RawWord } from "../types";
+
+// The service singletons the loader defaults to use window.localStorage on import
+vi.hoisted(() => {
+  (globalThis as { window?: unknown }).window = {};
+});
+
+const SHEET_WORDS: RawWord[] = [
+  { word: "abandon", translation: "放弃" },
+  { word: "benefit", translation: "好处" }
+];
+const BUILTIN: Record<number, RawWord[]> = { 1: [{ word: "capacity", translation: "容量" }] };
+const IMPORTED: CustomWordList = { name: "My list", levels: [[{ word: "decline", translation: "下降" }]], createdAt: "2026-10-01" };
+const ASSIGNMENT: Assignment = { id: 1, classId: "c1", title: "Level 1", levels: [1], words: null, dueDate: "2099-12-31", createdAt: "2026-10-01" };
+const IELTS = getTrack("IELTS");
+
+let deps: LevelLoaderDeps;
+let packs: Map<string, LevelPack>;
+
+function loader(overrides: Partial<LevelLoaderDeps> = {}) {
+  return new LevelLoader({ ...deps, ...overrides });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  packs = new Map();
+  deps = {
+    sheets: { fetchSheetWords: vi.fn(async () => ({ words: SHEET_WORDS, errors: [] })) },
+    gemini: { available: false, generateLevelWords: vi.fn(async () => []) },
+    distractors: { getDistractors: vi.fn(async (words: RawWord[]) => words.map(() => ["甲", "乙", "丙"])) },
+    details: { fillDetails: vi.fn(async (words: RawWord[]) => words) },
+    packs: { get: (trackId, level) => packs.get(`${trackId}:${level}`) ?? null },
+    builtin: BUILTIN
+  };
+});
+
+describe("LevelLoader.curriculumWords", () => {
+  it("falls back to the bundled words when the sheet fails", async () => {
+    const sheets = { fetchSheetWords: vi.fn(async () => { throw new Error("offline"); }) };
+    await expect(loader({ sheets }).curriculumWords(1, IELTS)).resolves.toMatchObject({ words: BUILTIN[1], source: "builtin" });
+  });
+
+  it("returns the rows the sheet skipped", async () => {
+    const errors = [{ row: 3, reason: "missing translation", cells: ["decline", ""] }];
+    const sheets = { fetchSheetWords: vi.fn(async () => ({ words: SHEET_WORDS, errors })) };
+    const loaded = await loader({ sheets }).curriculumWords(1, IELTS);
+    expect(loaded.skipped).toEqual({ sheet: "第1关", errors });
+  });
+
+  it("fails with NoWordsError when no source has words", async () => {
+    const sheets = { fetchSheetWords: vi.fn(async () => ({ words: [], errors: [] })) };
+    await expect(loader({ sheets, builtin: {} }).curriculumWords(1, IELTS)).rejects.toBeInstanceOf(NoWordsError);
+  });
+});
+
+describe("LevelLoader.level", () => {
+  it("plays an imported list as a CUSTOM_LIST run", async () => {
+    const loaded = await loader().level({ level: 1, track: IELTS, customList: IMPORTED, mode: "SPELLING" });
+    expect(loaded.source).toBe("CUSTOM_LIST");
+    expect(loaded.words.map(w => w.word)).toEqual(["decline"]);
+    expect(deps.sheets.fetchSheetWords).not.toHaveBeenCalled();
+  });
+
+  it("loads assignment levels from the curriculum, not the imported list", async () => {
+    const loaded = await loader().level({ level: 1, track: getTrack("CET4"), assignment: ASSIGNMENT, customList: IMPORTED, mode: "SPELLING" });
+    expect(loaded.source).toBe("LEVEL");
+    expect(loaded.track.id).toBe("IELTS");
+    expect(loaded.words.map(w => w.word)).toEqual(["abandon", "benefit"]);
+  });
+
+  it("uses a downloaded pack and its distractors instead of the network", async () => {
+    packs.set("IELTS:1", {
+      trackId: "IELTS",
+      level: 1,
+      words: SHEET_WORDS.map(w => ({ ...w, distractors: ["一", "二", "三"] })),
+      downloadedAt: "2026-10-01",
+      source: "sheets"
+    });
+    const loaded = await loader().level({ level: 1, track: IELTS, mode: "EN_TO_ZH" });
+    expect(deps.sheets.fetchSheetWords).not.toHaveBeenCalled();
+    expect(deps.distractors.getDistractors).not.toHaveBeenCalled();
+    expect([...loaded.words[0].options].sort()).toEqual(["一", "三", "二", "放弃"].sort());
+  });
+});
+
+describe("LevelLoader.challenge", () => {
+  const CHALLENGE = { seed: "abc123", track: "IELTS" as const, level: 1, mode: "EN_TO_ZH" as const };
+
+  it("records the source its words came from and never asks Gemini", async () => {
+    const gemini = { available: true, generateLevelWords: vi.fn(async () => SHEET_WORDS) };
+    const sheets = { fetchSheetWords: vi.fn(async () => { throw new Error("offline"); }) };
+    const loaded = await loader({ gemini, sheets }).challenge(CHALLENGE);
+    expect(loaded.challenge.source).toBe("builtin");
+    expect(gemini.generateLevelWords).not.toHaveBeenCalled();
+  });
+
+  it("gives the same questions for the same seed", async () => {
+    const first = await loader().challenge(CHALLENGE);
+    const second = await loader().challenge(CHALLENGE);
+    expect(second.words).toEqual(first.words);
+    expect(deps.distractors.getDistractors).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,290 @@
+import {
+  Assignment,
+  CustomWordList,
+  LevelPack,
+  LevelPackWord,
+  QuestionMode,
+  RawWord,
+  RecordSource,
+  Word,
+  WordDetails,
+  WordMastery,
+  WordRowError
+} from "../types";
+import { DEFAULT_TRACK_ID, Track, WordSource, getCurriculumLevel, getTrack } from "../game/curriculum";
+import { Challenge, ChallengeSource } from "../game/challenge";
+import { BUILTIN_WORDS } from "../game/builtinWords";
+import { composeLevel } from "../game/adaptive";
+import { RandomSource, createSeededRandom, shuffle } from "../game/random";
+import { wordId } from "../game/wordId";
+import { GeminiService, geminiService } from "./geminiService";
+import { GoogleSheetsService, sheetsService } from "./sheetsService";
+import { DISTRACTOR_COUNT, DistractorService, distractorService } from "./distractorService";
+import { WordDetailService, wordDetailService } from "./wordDetailService";
+import { LevelPackStore, levelPackStore } from "./levelPackStore";
+import { pickEnglishDistractors, pickLocalDistractors } from "./localDistractors";
+
+// Where the questions of every kind of session come from: curriculum levels, imported
+// lists, assignments, challenges, rooms and reviews. App shows what comes back and
+// starts the session; nothing here touches React state.
+
+// Modes whose answers are Chinese meanings and need generated distractors
+export const MEANING_MODES: QuestionMode[] = ["EN_TO_ZH", "LISTENING"];
+
+// Every word source of a level came back empty or failed
+export class NoWordsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NoWordsError";
+  }
+}
+
+// Rows of a sheet that were not valid words and were left out of the level
+export interface SkippedRows {
+  sheet: string;
+  errors: WordRowError[];
+}
+
+export interface LoadedWords {
+  words: Word[];
+  skipped: SkippedRows | null;
+}
+
+export interface LoadedLevel extends LoadedWords {
+  // The level's own words before weak words were mixed in, kept as a distractor bank
+  rawWords: RawWord[];
+  source: RecordSource;
+  track: Track;
+}
+
+export interface LoadedChallenge extends LoadedWords {
+  // The challenge with the source its words came from
+  challenge: Challenge & { source: ChallengeSource };
+  track: Track;
+}
+
+export interface LevelRequest {
+  level: number;
+  // The lobby's track; assignment levels are numbered in the default track instead
+  track: Track;
+  assignment?: Assignment | null;
+  customList?: CustomWordList | null;
+  // The player's word mastery, for mixing weak words into curriculum levels
+  mastery?: WordMastery[];
+  // Word banks of levels loaded so far, by level; neighbours of the level widen the distractor pool
+  banks?: Record<number, RawWord[]>;
+  mode: QuestionMode;
+  // Example sentences are only looked up when feedback will show them
+  withDetails?: boolean;
+}
+
+export interface PrepareOptions {
+  // Passed for challenges: options must then come out identical on every device
+  seeded?: RandomSource;
+  // Meaning options of a downloaded level pack by word id; words mixed in from
+  // elsewhere are not in the pack and get local options
+  distractors?: Map<string, string[]>;
+  withDetails?: boolean;
+}
+
+export interface LevelLoaderDeps {
+  sheets: Pick<GoogleSheetsService, "fetchSheetWords">;
+  gemini: Pick<GeminiService, "available" | "generateLevelWords">;
+  distractors: Pick<DistractorService, "getDistractors">;
+  details: Pick<WordDetailService, "fillDetails">;
+  packs: Pick<LevelPackStore, "get">;
+  builtin: Record<number, RawWord[]>;
+}
+
+function detailsOf({ partOfSpeech, example, exampleTranslation }: WordDetails): WordDetails {
+  return { partOfSpeech, example, exampleTranslation };
+}
+
+function withoutDistractors({ distractors, ...word }: LevelPackWord): RawWord {
+  return word;
+}
+
+function packDistractors(pack: LevelPack): Map<string, string[]> {
+  return new Map(pack.words.map(w => [wordId(w), w.distractors]));
+}
+
+export class LevelLoader {
+  private deps: LevelLoaderDeps;
+
+  constructor(deps: Partial<LevelLoaderDeps> = {}) {
+    this.deps = {
+      sheets: sheetsService,
+      gemini: geminiService,
+      distractors: distractorService,
+      details: wordDetailService,
+      packs: levelPackStore,
+      builtin: BUILTIN_WORDS,
+      ...deps
+    };
+  }
+
+  // Words of a level from the track's sources in curriculum order, skipping those `use` rejects
+  async curriculumWords(
+    level: number,
+    track: Track,
+    use: (source: WordSource) => boolean = () => true
+  ): Promise<{ words: RawWord[]; source: WordSource["type"]; skipped: SkippedRows | null }> {
+    const { wordsPerLevel, sources } = getCurriculumLevel(track, level);
+    const { sheets, gemini, builtin } = this.deps;
+
+    // The last failure is what the player sees if no source has words
+    let lastError: unknown = null;
+    for (const source of sources) {
+      if (!use(source) || (source.type === "gemini" && !gemini.available)) continue;
+      let rawWords: RawWord[] = [];
+      let skipped: SkippedRows | null = null;
+      try {
+        if (source.type === "sheets") {
+          const { words, errors } = await sheets.fetchSheetWords(source.sheet);
+          rawWords = words;
+          if (errors.length > 0) skipped = { sheet: source.sheet, errors };
+        } else if (source.type === "builtin") rawWords = builtin[level] ?? [];
+        else rawWords = await gemini.generateLevelWords({ exam: source.exam, level, levelCount: track.levels.length, count: wordsPerLevel });
+      } catch (error) {
+        console.warn(`Word source ${source.type} unavailable for ${track.id} level ${level}:`, error);
+        lastError = error;
+      }
+      if (rawWords.length > 0) return { words: rawWords.slice(0, wordsPerLevel), source: source.type, skipped };
+    }
+    throw lastError ?? new NoWordsError(`No words for ${track.id} level ${level}`);
+  }
+
+  // Questions in the given mode, one per word and in the same order
+  async prepareWords(sourceWords: RawWord[], pool: RawWord[], mode: QuestionMode, options: PrepareOptions = {}): Promise<Word[]> {
+    const { seeded, distractors: packed, withDetails = false } = options;
+    const random = seeded ?? Math.random;
+    const rawWords = withDetails ? await this.deps.details.fillDetails(sourceWords) : sourceWords;
+
+    if (MEANING_MODES.includes(mode)) {
+      // Generated distractors differ between devices, so challenges use the local ones
+      const distractors = seeded
+        ? rawWords.map(w => pickLocalDistractors(w, pool, DISTRACTOR_COUNT, seeded))
+        : packed
+          ? rawWords.map(w => {
+            const fromPack = packed.get(wordId(w));
+            return fromPack && fromPack.length >= DISTRACTOR_COUNT ? fromPack : pickLocalDistractors(w, pool, DISTRACTOR_COUNT, random);
+          })
+          : await this.deps.distractors.getDistractors(rawWords, pool);
+      return rawWords.map((w, idx) => ({
+        id: wordId(w),
+        word: w.word,
+        translation: w.translation,
+        ...detailsOf(w),
+        mode,
+        options: shuffle([...distractors[idx], w.translation], random),
+        correctAnswer: w.translation
+      }));
+    }
+
+    // 中译英 answers are English words, so the level's own word bank is enough
+    return rawWords.map(w => ({
+      id: wordId(w),
+      word: w.word,
+      translation: w.translation,
+      ...detailsOf(w),
+      mode,
+      options: mode === "ZH_TO_EN"
+        ? shuffle([...pickEnglishDistractors(w, pool, DISTRACTOR_COUNT, random), w.word], random)
+        : [],
+      correctAnswer: w.word
+    }));
+  }
+
+  // A numbered level. Assignment levels always come from the curriculum (the teacher set
+  // that level, not the player's own list) and stay as the teacher set them; other levels
+  // play the imported list when there is one and get the player's weak words mixed in.
+  async level({ level, track, assignment = null, customList = null, mastery = [], banks = {}, mode, withDetails }: LevelRequest): Promise<LoadedLevel> {
+    const levelTrack = assignment ? getTrack(DEFAULT_TRACK_ID) : track;
+    const imported = assignment ? undefined : customList?.levels[level - 1];
+    const pack = imported ? null : this.deps.packs.get(levelTrack.id, level);
+
+    let rawWords: RawWord[];
+    let skipped: SkippedRows | null = null;
+    if (pack) rawWords = pack.words.map(withoutDistractors);
+    else if (imported) rawWords = imported.slice(0, getCurriculumLevel(levelTrack, level).wordsPerLevel);
+    else ({ words: rawWords, skipped } = await this.curriculumWords(level, levelTrack));
+
+    const levelWords = assignment ? rawWords : composeLevel(rawWords, mastery);
+    const pool = [...levelWords, ...(banks[level - 1] ?? []), ...(banks[level + 1] ?? [])];
+    const words = await this.prepareWords(levelWords, pool, mode, {
+      distractors: pack ? packDistractors(pack) : undefined,
+      withDetails
+    });
+    return { words, rawWords, source: imported ? "CUSTOM_LIST" : "LEVEL", track: levelTrack, skipped };
+  }
+
+  // Same seed, track, level, mode and source give the same word order and options. Only
+  // the challenge's source is used, so every device gets the same words; a pack counts
+  // when it was downloaded from that source. An imported list only exists on one device
+  // and Gemini words differ on every call, so challenges never use either.
+  async challenge(challenge: Challenge, withDetails = false): Promise<LoadedChallenge> {
+    const track = getTrack(challenge.track);
+    const isChallengeSource = (type: WordSource["type"]): type is ChallengeSource =>
+      type !== "gemini" && (!challenge.source || type === challenge.source);
+
+    let sourceWords: RawWord[];
+    let source: ChallengeSource;
+    let skipped: SkippedRows | null = null;
+    const pack = this.deps.packs.get(track.id, challenge.level);
+    if (pack?.source && isChallengeSource(pack.source)) {
+      sourceWords = pack.words.map(withoutDistractors);
+      source = pack.source;
+    } else {
+      const loaded = await this.curriculumWords(challenge.level, track, s => isChallengeSource(s.type));
+      sourceWords = loaded.words;
+      source = loaded.source as ChallengeSource;
+      skipped = loaded.skipped;
+    }
+
+    // Tracks other than the default one are part of the seed string; default-track links keep their old words
+    const trackSeed = challenge.track === DEFAULT_TRACK_ID ? "" : `:${challenge.track}`;
+    const random = createSeededRandom(`${challenge.seed}:${challenge.level}:${challenge.mode}${trackSeed}`);
+    const rawWords = shuffle(sourceWords, random);
+    const words = await this.prepareWords(rawWords, rawWords, challenge.mode, { seeded: random, withDetails });
+    return { words, challenge: { ...challenge, source }, track, skipped };
+  }
+
+  // A word-list assignment is played as a single level of its own words
+  async wordAssignment(assignment: Assignment, mode: QuestionMode, withDetails = false): Promise<Word[]> {
+    const words = assignment.words ?? [];
+    const rawWords = words.slice(0, getCurriculumLevel(getTrack(DEFAULT_TRACK_ID), 1).wordsPerLevel);
+    return this.prepareWords(rawWords, words, mode, { withDetails });
+  }
+
+  // Rooms are played over the LAN, so distractors come from a downloaded pack or the level itself
+  async roomQuestions(level: number, track: Track, customList: CustomWordList | null, mode: QuestionMode): Promise<LoadedWords> {
+    const imported = customList?.levels[level - 1];
+    const pack = imported ? null : this.deps.packs.get(track.id, level);
+
+    let rawWords: RawWord[];
+    let skipped: SkippedRows | null = null;
+    if (pack) rawWords = pack.words.map(withoutDistractors);
+    else if (imported) rawWords = imported.slice(0, getCurriculumLevel(track, level).wordsPerLevel);
+    else ({ words: rawWords, skipped } = await this.curriculumWords(level, track));
+
+    const distractors = pack ? packDistractors(pack) : new Map<string, string[]>();
+    return { words: await this.prepareWords(shuffle(rawWords), rawWords, mode, { distractors }), skipped };
+  }
+
+  // Words, example sentences and meaning options of one curriculum level, for offline play
+  async levelPack(level: number, track: Track, banks: Record<number, RawWord[]> = {}): Promise<LevelPack> {
+    const { words, source } = await this.curriculumWords(level, track);
+    const rawWords = await this.deps.details.fillDetails(words);
+    const pool = [...rawWords, ...(banks[level - 1] ?? []), ...(banks[level + 1] ?? [])];
+    const distractors = await this.deps.distractors.getDistractors(rawWords, pool);
+    return {
+      trackId: track.id,
+      level,
+      words: rawWords.map((w, i) => ({ ...w, distractors: distractors[i] })),
+      downloadedAt: new Date().toISOString(),
+      source
+    };
+  }
+}
+
+export const levelLoader = new LevelLoader();
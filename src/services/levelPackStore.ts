@@ -0,0 +1,39 @@
+import { LevelPack, TrackId } from "../types";
+
+// Level packs downloaded for offline play, one localStorage entry per track and level
+
+export class LevelPackStore {
+  constructor(private storage: Storage = window.localStorage, private prefix = "ielts-game:pack:") {}
+
+  private key(trackId: TrackId, level: number): string {
+    return `${this.prefix}${trackId}:${level}`;
+  }
+
+  get(trackId: TrackId, level: number): LevelPack | null {
+    try {
+      const raw = this.storage.getItem(this.key(trackId, level));
+      const parsed = raw ? JSON.parse(raw) : null;
+      return parsed && Array.isArray(parsed.words) && parsed.words.length > 0 ? parsed : null;
+    } catch (error) {
+      console.warn("Failed to load level pack:", error);
+      return null;
+    }
+  }
+
+  // Throws when storage is full, so the caller can tell the player
+  save(pack: LevelPack): void {
+    this.storage.setItem(this.key(pack.trackId, pack.level), JSON.stringify(pack));
+  }
+
+  downloadedLevels(trackId: TrackId, levelCount: number): number[] {
+    return Array.from({ length: levelCount }, (_, i) => i + 1).filter(level => this.get(trackId, level));
+  }
+
+  clear(trackId: TrackId, levelCount: number): void {
+    for (let level = 1; level <= levelCount; level++) {
+      this.storage.removeItem(this.key(trackId, level));
+    }
+  }
+}
+
+export const levelPackStore = new LevelPackStore();
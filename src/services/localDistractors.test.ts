@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { isNearDuplicate, pickEnglishDistractors, pickLocalDistractors } from "./localDistractors";
+import { createSeededRandom } from "../game/random";
+
+const WORD = { word: "benefit", translation: "好处" };
+
+describe("pickLocalDistractors", () => {
+  it("prefers meanings from the pool", () => {
+    const pool = [WORD, { word: "capacity", translation: "容量" }, { word: "decline", translation: "下降" }, { word: "evaluate", translation: "评估" }];
+    expect(pickLocalDistractors(WORD, pool, 3).sort()).toEqual(["下降", "容量", "评估"]);
+  });
+
+  it("tops a short pool up with bundled words so there are always three options", () => {
+    const distractors = pickLocalDistractors(WORD, [WORD, { word: "capacity", translation: "容量" }], 3);
+    expect(distractors).toHaveLength(3);
+    expect(distractors).toContain("容量");
+    expect(distractors.some(d => isNearDuplicate(d, WORD.translation))).toBe(false);
+  });
+
+  it("gives the same options for the same seed", () => {
+    const pick = () => pickLocalDistractors(WORD, [WORD], 3, createSeededRandom("abc"));
+    expect(pick()).toEqual(pick());
+  });
+});
+
+describe("pickEnglishDistractors", () => {
+  it("tops a short pool up with bundled words", () => {
+    expect(pickEnglishDistractors(WORD, [WORD], 3)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,125 @@
+import { RawWord } from "../types";
+import { shuffle } from "../game/random";
+import { BUILTIN_WORDS } from "../game/builtinWords";
+
+// Offline distractors: other translations from the word bank of the same or an
+// adjacent level, preferring ones with the same part of speech. A pool too small
+// for a full set of options is topped up from the bundled words, so every
+// question gets real options.
+
+const RESERVE: RawWord[] = Object.values(BUILTIN_WORDS).flat();
+
+export type PartOfSpeech = "adj" | "adv" | "verb" | "noun" | "unknown";
+
+const ENGLISH_SUFFIXES: [RegExp, PartOfSpeech][] = [
+  [/(ly)$/, "adv"],
+  [/(ous|ful|ive|able|ible|al|ic|less|ary)$/, "adj"],
+  [/(ize|ise|ate|ify|en)$/, "verb"],
+  [/(tion|sion|ment|ness|ity|ance|ence|ship|ism|er|or|ist|ure|age)$/, "noun"]
+];
+
+function meanings(translation: string): string[] {
+  return translation
+    .split(/[；;，,、/]/)
+    .map(m => m.replace(/[（(][^）)]*[）)]/g, "").trim())
+    .filter(Boolean);
+}
+
+// The Chinese meaning is more reliable than the English spelling, so check it first:
+// 绝对的 -> adj, 迅速地 -> adv, 使…变得 -> verb
+export function inferPartOfSpeech(word: RawWord): PartOfSpeech {
+  const first = meanings(word.translation)[0] ?? "";
+  if (/^(adj|a)\./i.test(word.translation) || first.endsWith("的")) return "adj";
+  if (/^adv\./i.test(word.translation) || first.endsWith("地")) return "adv";
+  if (/^(v|vt|vi)\./i.test(word.translation) || first.startsWith("使")) return "verb";
+  if (/^n\./i.test(word.translation)) return "noun";
+
+  const english = word.word.trim().toLowerCase();
+  for (const [pattern, pos] of ENGLISH_SUFFIXES) {
+    if (pattern.test(english)) return pos;
+  }
+  return "unknown";
+}
+
+function normalize(text: string): string {
+  return text.replace(/^(adj|adv|vt|vi|v|n|a)\.\s*/i, "").replace(/[\s；;，,、/。.（）()…]/g, "");
+}
+
+function charOverlap(a: string, b: string): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const shared = [...setA].filter(c => setB.has(c)).length;
+  return shared / Math.max(1, Math.min(setA.size, setB.size));
+}
+
+// True when two translations would read as the same answer: identical once
+// punctuation is stripped, sharing a meaning, one containing the other, or
+// mostly made of the same characters (放弃 vs 放弃了).
+export function isNearDuplicate(a: string, b: string): boolean {
+  const na = normalize(a);
+  const nb = normalize(b);
+  if (!na || !nb) return true;
+  if (na === nb || na.includes(nb) || nb.includes(na)) return true;
+
+  const ma = meanings(a).map(normalize);
+  const mb = new Set(meanings(b).map(normalize));
+  if (ma.some(m => m && mb.has(m))) return true;
+
+  return Math.min(na.length, nb.length) >= 2 && charOverlap(na, nb) >= 0.75;
+}
+
+// Other words of the pool in random order, same part of speech first
+function orderedCandidates(word: RawWord, pool: RawWord[], random: () => number): RawWord[] {
+  const pos = inferPartOfSpeech(word);
+  const self = word.word.trim().toLowerCase();
+  const candidates = shuffle(
+    pool.filter(w => w.word.trim().toLowerCase() !== self),
+    random
+  );
+  return [
+    ...candidates.filter(w => inferPartOfSpeech(w) === pos),
+    ...candidates.filter(w => inferPartOfSpeech(w) !== pos)
+  ];
+}
+
+export function pickLocalDistractors(
+  word: RawWord,
+  pool: RawWord[],
+  count: number,
+  random: () => number = Math.random
+): string[] {
+  const picked: string[] = [];
+  const pick = (candidates: RawWord[]) => {
+    for (const candidate of candidates) {
+      if (picked.length >= count) return;
+      const text = candidate.translation.trim();
+      if (isNearDuplicate(text, word.translation)) continue;
+      if (picked.some(p => isNearDuplicate(p, text))) continue;
+      picked.push(text);
+    }
+  };
+  pick(orderedCandidates(word, pool, random));
+  if (picked.length < count) pick(orderedCandidates(word, RESERVE, random));
+  return picked;
+}
+
+// For 中译英: other English words from the bank, same part of speech first
+export function pickEnglishDistractors(
+  word: RawWord,
+  pool: RawWord[],
+  count: number,
+  random: () => number = Math.random
+): string[] {
+  const picked: string[] = [];
+  const pick = (candidates: RawWord[]) => {
+    for (const candidate of candidates) {
+      if (picked.length >= count) return;
+      if (isNearDuplicate(candidate.translation, word.translation)) continue;
+      const text = candidate.word.trim();
+      if (!picked.some(p => p.toLowerCase() === text.toLowerCase())) picked.push(text);
+    }
+  };
+  pick(orderedCandidates(word, pool, random));
+  if (picked.length < count) pick(orderedCandidates(word, RESERVE, random));
+  return picked;
+}
@@ -0,0 +1,136 @@
+import { RawWord, WordMastery } from "../types";
+import { wordId } from "../game/wordId";
+
+// Per-player word mastery: how often each word was seen, how often it was
+// answered right and how long answers took. Unlike the SM-2 deck in
+// reviewService, every answer counts, right or wrong, in levels and reviews.
+
+// Answers at or under FAST_MS count as confident; at SLOW_MS or over the word
+// loses the full latency penalty
+const FAST_MS = 2000;
+const SLOW_MS = 8000;
+const LATENCY_PENALTY = 0.2;
+// masteryScore below this is a weak word, at or above MASTERED a mastered one
+const WEAK_SCORE = 0.6;
+const MASTERED_SCORE = 0.8;
+
+export function correctRate(mastery: WordMastery): number {
+  return mastery.seen > 0 ? mastery.correct / mastery.seen : 0;
+}
+
+export function averageResponseMs(mastery: WordMastery): number {
+  return mastery.seen > 0 ? mastery.totalResponseMs / mastery.seen : 0;
+}
+
+// 0..1. The correct rate is smoothed so a single answer is never 0% or 100%,
+// then slow answers pull the score down.
+export function masteryScore(mastery: WordMastery): number {
+  const smoothed = (mastery.correct + 1) / (mastery.seen + 2);
+  const slowness = Math.min(1, Math.max(0, (averageResponseMs(mastery) - FAST_MS) / (SLOW_MS - FAST_MS)));
+  return Math.max(0, smoothed - slowness * LATENCY_PENALTY);
+}
+
+export function isWeak(mastery: WordMastery): boolean {
+  return mastery.seen > 0 && masteryScore(mastery) < WEAK_SCORE;
+}
+
+// Needs at least two answers, so one lucky guess is not mastery
+export function isMastered(mastery: WordMastery): boolean {
+  return mastery.seen >= 2 && mastery.lastCorrect && masteryScore(mastery) >= MASTERED_SCORE;
+}
+
+export function recordAttempt(
+  previous: WordMastery | undefined,
+  word: RawWord,
+  isCorrect: boolean,
+  responseMs: number,
+  // null for answers outside the numbered levels (reviews, word-list assignments)
+  level: number | null,
+  now: Date = new Date()
+): WordMastery {
+  const base: WordMastery = previous ?? {
+    wordId: wordId(word),
+    word: word.word.trim(),
+    translation: word.translation,
+    seen: 0,
+    correct: 0,
+    totalResponseMs: 0,
+    levels: [],
+    lastSeenAt: now.toISOString(),
+    lastCorrect: false
+  };
+  return {
+    ...base,
+    seen: base.seen + 1,
+    correct: base.correct + (isCorrect ? 1 : 0),
+    totalResponseMs: base.totalResponseMs + Math.max(0, responseMs),
+    levels: level === null || base.levels.includes(level) ? base.levels : [...base.levels, level].sort((a, b) => a - b),
+    lastSeenAt: now.toISOString(),
+    lastCorrect: isCorrect
+  };
+}
+
+// Weakest first: lowest mastery score, then the most answers (a word missed
+// often is a surer sign than a word missed once)
+export function weakestFirst(entries: WordMastery[]): WordMastery[] {
+  return entries.filter(isWeak).sort((a, b) => masteryScore(a) - masteryScore(b) || b.seen - a.seen);
+}
+
+// The 最难单词 report: most misses first, then lowest correct rate, then slowest
+export function hardestWords(entries: WordMastery[], limit = 20): WordMastery[] {
+  return entries
+    .filter(m => m.correct < m.seen)
+    .sort((a, b) =>
+      (b.seen - b.correct) - (a.seen - a.correct)
+      || correctRate(a) - correctRate(b)
+      || averageResponseMs(b) - averageResponseMs(a)
+    )
+    .slice(0, limit);
+}
+
+export class MasteryStore {
+  constructor(private storage: Storage = window.localStorage, private prefix = "ielts-game:mastery:") {}
+
+  private key(playerId: string): string {
+    return `${this.prefix}${playerId}`;
+  }
+
+  private load(playerId: string): Record<string, WordMastery> {
+    try {
+      const raw = this.storage.getItem(this.key(playerId));
+      const parsed = raw ? JSON.parse(raw) : {};
+      return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+    } catch (error) {
+      console.warn("Failed to load word mastery:", error);
+      return {};
+    }
+  }
+
+  all(playerId: string): WordMastery[] {
+    return Object.values(this.load(playerId));
+  }
+
+  recordAnswer(
+    playerId: string,
+    word: RawWord,
+    isCorrect: boolean,
+    responseMs: number,
+    level: number | null,
+    now: Date = new Date()
+  ): void {
+    const entries = this.load(playerId);
+    const id = wordId(word);
+    entries[id] = recordAttempt(entries[id], word, isCorrect, responseMs, level, now);
+    try {
+      this.storage.setItem(this.key(playerId), JSON.stringify(entries));
+    } catch (error) {
+      console.warn("Failed to save word mastery:", error);
+    }
+  }
+
+  reset(playerId: string): void {
+    this.storage.removeItem(this.key(playerId));
+  }
+}
+
+export const masteryStore = new MasteryStore();
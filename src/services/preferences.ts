@@ -0,0 +1,37 @@
+import { TrackId } from "../types";
+import { DEFAULT_TRACK_ID, isTrackId } from "../game/curriculum";
+
+// Small per-browser settings from the lobby.
+
+const REDUCED_MOTION_KEY = "ielts-game:reduced-motion";
+const TRACK_KEY = "ielts-game:track";
+
+// Reduced motion follows the OS setting unless the player turns it on in the lobby.
+// It switches off the motion animations (via MotionConfig) and the confetti.
+// canvas-confetti and MotionConfig already honour the OS setting on their own.
+export function loadReducedMotion(storage: Storage = window.localStorage): boolean {
+  try {
+    return storage.getItem(REDUCED_MOTION_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+export function saveReducedMotion(enabled: boolean, storage: Storage = window.localStorage): void {
+  if (enabled) storage.setItem(REDUCED_MOTION_KEY, "1");
+  else storage.removeItem(REDUCED_MOTION_KEY);
+}
+
+// The curriculum track picked in the lobby
+export function loadTrackId(storage: Storage = window.localStorage): TrackId {
+  try {
+    const stored = storage.getItem(TRACK_KEY);
+    return isTrackId(stored) ? stored : DEFAULT_TRACK_ID;
+  } catch {
+    return DEFAULT_TRACK_ID;
+  }
+}
+
+export function saveTrackId(trackId: TrackId, storage: Storage = window.localStorage): void {
+  storage.setItem(TRACK_KEY, trackId);
+}
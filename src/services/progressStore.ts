@@ -0,0 +1,115 @@
+import { PlayerProfile, PlayerProgress, TrackId } from "../types";
+import { createProgress } from "../game/progression";
+import { createProfile } from "../game/profile";
+import { DEFAULT_TRACK_ID, getTrack } from "../game/curriculum";
+
+// Progress is kept per playerId and curriculum track. The store is an interface so the lobby can be
+// backed by localStorage in the browser and by something else (e.g. memory) elsewhere.
+export interface ProgressStore {
+  load(playerId: string, trackId?: TrackId): PlayerProgress;
+  save(progress: PlayerProgress): void;
+  reset(playerId: string, trackId?: TrackId): void;
+}
+
+function isProgress(value: any): value is PlayerProgress {
+  return value
+    && typeof value.playerId === "string"
+    && typeof value.unlockedLevel === "number"
+    && typeof value.bestAccuracy === "object";
+}
+
+export class LocalStorageProgressStore implements ProgressStore {
+  constructor(private storage: Storage = window.localStorage, private prefix = "ielts-game:progress:") {}
+
+  // IELTS keeps the key from before tracks existed so old progress still loads
+  private key(playerId: string, trackId: TrackId): string {
+    return trackId === DEFAULT_TRACK_ID ? `${this.prefix}${playerId}` : `${this.prefix}${playerId}:${trackId}`;
+  }
+
+  load(playerId: string, trackId: TrackId = DEFAULT_TRACK_ID): PlayerProgress {
+    try {
+      const raw = this.storage.getItem(this.key(playerId, trackId));
+      const parsed = raw ? JSON.parse(raw) : null;
+      if (isProgress(parsed)) {
+        // Spread over defaults so progress saved by older versions gains new fields
+        return {
+          ...createProgress(playerId, trackId),
+          ...parsed,
+          trackId,
+          unlockedLevel: Math.min(Math.max(1, parsed.unlockedLevel), getTrack(trackId).levels.length)
+        };
+      }
+    } catch (error) {
+      console.warn("Failed to load progress:", error);
+    }
+    return createProgress(playerId, trackId);
+  }
+
+  save(progress: PlayerProgress): void {
+    try {
+      this.storage.setItem(this.key(progress.playerId, progress.trackId), JSON.stringify(progress));
+    } catch (error) {
+      console.warn("Failed to save progress:", error);
+    }
+  }
+
+  reset(playerId: string, trackId: TrackId = DEFAULT_TRACK_ID): void {
+    this.storage.removeItem(this.key(playerId, trackId));
+  }
+}
+
+export class MemoryProgressStore implements ProgressStore {
+  private data = new Map<string, PlayerProgress>();
+
+  load(playerId: string, trackId: TrackId = DEFAULT_TRACK_ID): PlayerProgress {
+    return this.data.get(`${playerId}:${trackId}`) ?? createProgress(playerId, trackId);
+  }
+
+  save(progress: PlayerProgress): void {
+    this.data.set(`${progress.playerId}:${progress.trackId}`, progress);
+  }
+
+  reset(playerId: string, trackId: TrackId = DEFAULT_TRACK_ID): void {
+    this.data.delete(`${playerId}:${trackId}`);
+  }
+}
+
+export const progressStore: ProgressStore = new LocalStorageProgressStore();
+
+// The profile (nickname, avatar, streak and achievements) lives next to progress but spans every track
+export interface ProfileStore {
+  load(playerId: string): PlayerProfile;
+  save(profile: PlayerProfile): void;
+}
+
+function isProfile(value: any): value is PlayerProfile {
+  return value
+    && typeof value.playerId === "string"
+    && typeof value.streak === "object"
+    && typeof value.achievements === "object";
+}
+
+export class LocalStorageProfileStore implements ProfileStore {
+  constructor(private storage: Storage = window.localStorage, private prefix = "ielts-game:profile:") {}
+
+  load(playerId: string): PlayerProfile {
+    try {
+      const raw = this.storage.getItem(`${this.prefix}${playerId}`);
+      const parsed = raw ? JSON.parse(raw) : null;
+      if (isProfile(parsed)) return { ...createProfile(playerId), ...parsed, playerId };
+    } catch (error) {
+      console.warn("Failed to load profile:", error);
+    }
+    return createProfile(playerId);
+  }
+
+  save(profile: PlayerProfile): void {
+    try {
+      this.storage.setItem(`${this.prefix}${profile.playerId}`, JSON.stringify(profile));
+    } catch (error) {
+      console.warn("Failed to save profile:", error);
+    }
+  }
+}
+
+export const profileStore: ProfileStore = new LocalStorageProfileStore();
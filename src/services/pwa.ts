@@ -0,0 +1,8 @@
+// Registers public/sw.js. Only production builds use it: in development it
+// would serve stale modules instead of the dev server's.
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch(error => console.warn("Service worker registration failed:", error));
+  });
+}
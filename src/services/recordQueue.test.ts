@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { MAX_SEND_ATTEMPTS, RecordQueue, RecordSenders } from "./recordQueue";
+import { RecordRejectedError } from "./recordService";
+import type { LevelResult } from "../types";
+
+// The module creates its singleton against window.localStorage on import
+vi.hoisted(() => {
+  (globalThis as { window?: unknown }).window = {};
+});
+
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+  get length() { return this.items.size; }
+  clear() { this.items.clear(); }
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  key(index: number) { return [...this.items.keys()][index] ?? null; }
+  removeItem(key: string) { this.items.delete(key); }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+}
+
+function result(playerNo: string): LevelResult {
+  return {
+    record: {
+      playerNo,
+      playerId: "amy",
+      startTime: "2026-10-01 10:00",
+      endTime: "2026-10-01 10:01",
+      duration: "1:00",
+      maxLevel: 1,
+      totalWords: 1,
+      correctCount: 1,
+      accuracy: "100.00%",
+      mode: "EN_TO_ZH",
+      score: 100,
+      stars: 3
+    },
+    durationMs: 60000,
+    answers: []
+  };
+}
+
+function sendersWith(backend: RecordSenders["backend"]): RecordSenders {
+  return { backend, sheets: async () => {} };
+}
+
+let queue: RecordQueue;
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  queue = new RecordQueue(new MemoryStorage());
+  ["1", "2", "3"].forEach(no => queue.enqueue(result(no)));
+});
+
+describe("RecordQueue.flush", () => {
+  it("skips a record the server fails on and sends the ones after it", async () => {
+    const sent: string[] = [];
+    const flushed = await queue.flush(sendersWith(async r => {
+      if (r.record.playerNo === "1") throw new Error("Request failed: 500");
+      sent.push(r.record.playerNo);
+    }));
+
+    expect(sent).toEqual(["2", "3"]);
+    expect(flushed).toEqual({ sent: 2, pending: 1, rejected: 0 });
+    expect(queue.list()[0].attempts).toEqual({ backend: 1 });
+  });
+
+  it("stops sending to a destination after a network error", async () => {
+    const backend = vi.fn(async () => {
+      throw new TypeError("Failed to fetch");
+    });
+    const flushed = await queue.flush(sendersWith(backend));
+
+    expect(backend).toHaveBeenCalledTimes(1);
+    expect(flushed).toEqual({ sent: 0, pending: 3, rejected: 0 });
+    expect(queue.list()[0].attempts).toBeUndefined();
+  });
+
+  it("drops a record the server rejects without counting it as sent", async () => {
+    const backend = vi.fn(async (r: LevelResult) => {
+      if (r.record.playerNo === "1") throw new RecordRejectedError("record.score must be a number", 400);
+    });
+    const flushed = await queue.flush(sendersWith(backend));
+
+    expect(flushed).toEqual({ sent: 2, pending: 0, rejected: 1 });
+    expect(console.warn).toHaveBeenCalledWith("Record rejected by backend, dropping it:", expect.any(RecordRejectedError));
+
+    await queue.flush(sendersWith(backend));
+    expect(backend).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up on a record after MAX_SEND_ATTEMPTS failures", async () => {
+    const senders = sendersWith(async r => {
+      if (r.record.playerNo === "1") throw new Error("Request failed: 500");
+    });
+    for (let i = 0; i < MAX_SEND_ATTEMPTS - 1; i++) await queue.flush(senders);
+    expect(queue.list().map(e => e.result.record.playerNo)).toEqual(["1"]);
+
+    await queue.flush(senders);
+    expect(queue.list()).toEqual([]);
+  });
+});
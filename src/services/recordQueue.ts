@@ -0,0 +1,136 @@
+import { LevelResult } from "../types";
+import { RecordRejectedError } from "./recordService";
+
+// Finished levels waiting to be sent. Every result is queued first and removed
+// once each destination has accepted it, so records made offline (or while the
+// backend is down) are sent when the connection comes back. Destinations are
+// tracked separately so a retry never appends a second Sheets row.
+
+// Failed sends (not counting being offline) before a destination gives up on a record
+export const MAX_SEND_ATTEMPTS = 5;
+
+export type RecordDestination = "backend" | "sheets";
+
+export type RecordSenders = Record<RecordDestination, (result: LevelResult) => Promise<void>>;
+
+interface PendingRecord {
+  result: LevelResult;
+  destinations: RecordDestination[];
+  // Failed sends per destination; missing on entries queued before attempts were counted
+  attempts?: Partial<Record<RecordDestination, number>>;
+}
+
+export interface FlushResult {
+  sent: number;
+  pending: number;
+  // Records a destination refused; they are dropped, not delivered
+  rejected: number;
+}
+
+function idOf(result: LevelResult): string {
+  return `${result.record.playerId}:${result.record.playerNo}`;
+}
+
+// fetch rejects with a TypeError when the request never got an answer
+function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+export class RecordQueue {
+  private flushing: Promise<FlushResult> | null = null;
+
+  constructor(private storage: Storage = window.localStorage, private key = "ielts-game:pending-records") {}
+
+  list(): PendingRecord[] {
+    try {
+      const raw = this.storage.getItem(this.key);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn("Failed to load pending records:", error);
+      return [];
+    }
+  }
+
+  private save(entries: PendingRecord[]): void {
+    try {
+      this.storage.setItem(this.key, JSON.stringify(entries));
+    } catch (error) {
+      console.warn("Failed to save pending records:", error);
+    }
+  }
+
+  enqueue(result: LevelResult): void {
+    const entries = this.list().filter(e => idOf(e.result) !== idOf(result));
+    this.save([...entries, { result, destinations: ["backend", "sheets"] }]);
+  }
+
+  // Sends oldest first. A network error stops that destination for the rest of
+  // this flush, since it is most likely offline. A record the destination rejects
+  // is dropped for it at once, as resending will not help. Any other failure only
+  // skips the entry, and after MAX_SEND_ATTEMPTS of those the entry is dropped for
+  // that destination so one bad record cannot hold up the queue. Calls made while
+  // a flush is running share it.
+  flush(senders: RecordSenders): Promise<FlushResult> {
+    this.flushing ??= this.run(senders).finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  private async run(senders: RecordSenders): Promise<FlushResult> {
+    const failed = new Set<RecordDestination>();
+    let sent = 0;
+    let rejected = 0;
+
+    for (const entry of this.list()) {
+      for (const destination of entry.destinations) {
+        if (failed.has(destination)) continue;
+        try {
+          await senders[destination](entry.result);
+          this.removeDestination(entry.result, destination);
+          if (destination === "backend") sent += 1;
+        } catch (error) {
+          if (isNetworkError(error)) {
+            console.warn(`Record not sent to ${destination}, will retry later:`, error);
+            failed.add(destination);
+          } else if (error instanceof RecordRejectedError) {
+            console.warn(`Record rejected by ${destination}, dropping it:`, error);
+            this.removeDestination(entry.result, destination);
+            rejected += 1;
+          } else {
+            this.markFailed(entry.result, destination, error);
+          }
+        }
+      }
+    }
+    return { sent, pending: this.list().length, rejected };
+  }
+
+  // Both re-read the queue so results enqueued during a flush are kept. A sent or
+  // rejected record is done with for that destination.
+  private removeDestination(result: LevelResult, destination: RecordDestination): void {
+    this.update(result, e => ({ ...e, destinations: e.destinations.filter(d => d !== destination) }));
+  }
+
+  private markFailed(result: LevelResult, destination: RecordDestination, error: unknown): void {
+    this.update(result, e => {
+      const attempts = (e.attempts?.[destination] ?? 0) + 1;
+      if (attempts < MAX_SEND_ATTEMPTS) {
+        console.warn(`Record not sent to ${destination} (attempt ${attempts}), will retry later:`, error);
+        return { ...e, attempts: { ...e.attempts, [destination]: attempts } };
+      }
+      console.error(`Giving up on sending record to ${destination} after ${attempts} attempts:`, error);
+      return { ...e, destinations: e.destinations.filter(d => d !== destination) };
+    });
+  }
+
+  private update(result: LevelResult, change: (entry: PendingRecord) => PendingRecord): void {
+    const entries = this.list()
+      .map(e => (idOf(e.result) === idOf(result) ? change(e) : e))
+      .filter(e => e.destinations.length > 0);
+    this.save(entries);
+  }
+}
+
+export const recordQueue = new RecordQueue();
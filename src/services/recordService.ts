@@ -0,0 +1,75 @@
+import { LeaderboardEntry, LevelResult, QuestionMode, StoredLevelResult, TrackId } from "../types";
+import { withRetry } from "../utils";
+import { DEFAULT_TRACK_ID } from "../game/curriculum";
+
+// Talks to the local Express + SQLite backend in /server.
+// In development Vite proxies /api to it, see vite.config.ts.
+
+export class RecordApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "RecordApiError";
+  }
+}
+
+// The server refused the record itself (a 4xx), as opposed to being unreachable or failing
+export class RecordRejectedError extends RecordApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = "RecordRejectedError";
+  }
+}
+
+export class RecordService {
+  private baseUrl: string;
+
+  constructor(baseUrl: string = "") {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, init);
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new RecordApiError(body.error || `Request failed: ${response.status}`, response.status);
+    }
+    return response.json();
+  }
+
+  // Retries network failures and 5xx responses. A 4xx means the payload is bad and
+  // sending it again won't help, so it fails at once with RecordRejectedError.
+  async saveLevelResult(result: LevelResult): Promise<number> {
+    const { id } = await withRetry(async () => {
+      try {
+        return await this.request<{ id: number }>("/api/records", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(result)
+        });
+      } catch (error) {
+        if (error instanceof RecordApiError && error.status < 500) {
+          throw new RecordRejectedError(error.message, error.status);
+        }
+        throw error;
+      }
+    }, { shouldRetry: error => !(error instanceof RecordRejectedError) });
+    return id;
+  }
+
+  async fetchHistory(playerId: string, limit = 50): Promise<StoredLevelResult[]> {
+    return this.request(`/api/players/${encodeURIComponent(playerId)}/records?limit=${limit}`);
+  }
+
+  async fetchLeaderboard(
+    level: number,
+    mode: QuestionMode = "EN_TO_ZH",
+    limit = 20,
+    challengeSeed?: string,
+    track: TrackId = DEFAULT_TRACK_ID
+  ): Promise<LeaderboardEntry[]> {
+    const seed = challengeSeed ? `&seed=${encodeURIComponent(challengeSeed)}` : "";
+    return this.request(`/api/leaderboard?level=${level}&mode=${mode}&track=${track}&limit=${limit}${seed}`);
+  }
+}
+
+export const recordService = new RecordService(process.env.VITE_API_BASE_URL || "");
@@ -0,0 +1,131 @@
+import { RawWord, ReviewItem } from "../types";
+
+// 错题复习: every missed word is kept on an SM-2 schedule.
+// See https://super-memory.com/english/ol/sm2.htm for the original algorithm.
+
+const MIN_EASE = 1.3;
+const INITIAL_EASE = 2.5;
+
+export function toDateKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = (date.getMonth() + 1).toString().padStart(2, "0");
+  const d = date.getDate().toString().padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+function wordKey(word: string): string {
+  return word.trim().toLowerCase();
+}
+
+// A freshly missed word is due immediately so it can be reviewed the same day
+export function createReviewItem(word: RawWord, today: Date = new Date()): ReviewItem {
+  return {
+    word: word.word,
+    translation: word.translation,
+    easeFactor: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    dueDate: toDateKey(today),
+    lapses: 0
+  };
+}
+
+// quality is the SM-2 response grade from 0 (blackout) to 5 (perfect)
+export function scheduleReview(item: ReviewItem, quality: number, today: Date = new Date()): ReviewItem {
+  const q = Math.max(0, Math.min(5, quality));
+  const easeFactor = Math.max(MIN_EASE, item.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+  if (q < 3) {
+    return {
+      ...item,
+      easeFactor,
+      repetitions: 0,
+      interval: 1,
+      dueDate: toDateKey(addDays(today, 1)),
+      lapses: item.lapses + 1
+    };
+  }
+
+  const repetitions = item.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(item.interval * easeFactor);
+  return {
+    ...item,
+    easeFactor,
+    repetitions,
+    interval,
+    dueDate: toDateKey(addDays(today, interval))
+  };
+}
+
+// Multiple-choice answers carry less signal than recall, so map them onto two grades
+export function qualityFromAnswer(isCorrect: boolean): number {
+  return isCorrect ? 4 : 1;
+}
+
+export function isDue(item: ReviewItem, today: Date = new Date()): boolean {
+  return item.dueDate <= toDateKey(today);
+}
+
+export class ReviewStore {
+  constructor(private storage: Storage = window.localStorage, private prefix = "ielts-game:review:") {}
+
+  private key(playerId: string): string {
+    return `${this.prefix}${playerId}`;
+  }
+
+  load(playerId: string): ReviewItem[] {
+    try {
+      const raw = this.storage.getItem(this.key(playerId));
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn("Failed to load review deck:", error);
+      return [];
+    }
+  }
+
+  private save(playerId: string, items: ReviewItem[]): void {
+    try {
+      this.storage.setItem(this.key(playerId), JSON.stringify(items));
+    } catch (error) {
+      console.warn("Failed to save review deck:", error);
+    }
+  }
+
+  due(playerId: string, today: Date = new Date()): ReviewItem[] {
+    return this.load(playerId).filter(item => isDue(item, today));
+  }
+
+  // Adds a missed word. A word already in the deck counts as a lapse instead.
+  addMissed(playerId: string, word: RawWord, today: Date = new Date()): ReviewItem[] {
+    const items = this.load(playerId);
+    const index = items.findIndex(item => wordKey(item.word) === wordKey(word.word));
+    if (index === -1) {
+      items.push(createReviewItem(word, today));
+    } else {
+      items[index] = { ...scheduleReview(items[index], 0, today), dueDate: toDateKey(today) };
+    }
+    this.save(playerId, items);
+    return items;
+  }
+
+  recordAnswer(playerId: string, word: string, isCorrect: boolean, today: Date = new Date()): ReviewItem[] {
+    const items = this.load(playerId).map(item =>
+      wordKey(item.word) === wordKey(word) ? scheduleReview(item, qualityFromAnswer(isCorrect), today) : item
+    );
+    this.save(playerId, items);
+    return items;
+  }
+
+  reset(playerId: string): void {
+    this.storage.removeItem(this.key(playerId));
+  }
+}
+
+export const reviewStore = new ReviewStore();
@@ -0,0 +1,51 @@
+import { RoomClientMessage, RoomServerMessage } from "../types";
+
+// Browser side of the live rooms in server/rooms.ts. In development Vite proxies the
+// WebSocket along with the rest of /api, see vite.config.ts.
+
+export const ROOM_QUESTION_TIME_MS = 15000;
+
+export function roomUrl(baseUrl: string = process.env.VITE_API_BASE_URL || "", location: Location = window.location): string {
+  // Same origin as the page unless the API lives elsewhere, like recordService
+  const base = new URL(baseUrl || "/", location.href);
+  base.protocol = base.protocol === "https:" ? "wss:" : "ws:";
+  base.pathname = `${base.pathname.replace(/\/+$/, "")}/api/rooms`;
+  base.search = "";
+  base.hash = "";
+  return base.toString();
+}
+
+export class RoomConnection {
+  private socket: WebSocket;
+  // Messages sent before the socket opens go out once it does
+  private outbox: RoomClientMessage[] = [];
+
+  constructor(
+    onMessage: (message: RoomServerMessage) => void,
+    onClose: () => void,
+    url: string = roomUrl()
+  ) {
+    this.socket = new WebSocket(url);
+    this.socket.addEventListener("open", () => {
+      this.outbox.forEach(message => this.socket.send(JSON.stringify(message)));
+      this.outbox = [];
+    });
+    this.socket.addEventListener("message", event => {
+      try {
+        onMessage(JSON.parse(event.data));
+      } catch (error) {
+        console.warn("Ignoring malformed room message:", error);
+      }
+    });
+    this.socket.addEventListener("close", onClose);
+  }
+
+  send(message: RoomClientMessage): void {
+    if (this.socket.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+    else this.outbox.push(message);
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+}
@@ -0,0 +1,83 @@
+import { UserAnswer } from "../types";
+
+export interface LevelRules {
+  // Accuracy (0-100) needed to pass and unlock the next level
+  passThreshold: number;
+  // Per-question countdown; null means untimed
+  questionTimeLimitMs: number | null;
+  // Accuracy needed for 2 and 3 stars; passing alone earns 1 star
+  starThresholds: [number, number];
+}
+
+export const DEFAULT_LEVEL_RULES: LevelRules = {
+  passThreshold: 90,
+  questionTimeLimitMs: null,
+  starThresholds: [95, 100]
+};
+
+// Rules per level come from the curriculum (src/game/curriculum.ts)
+
+const BASE_POINTS = 100;
+const MAX_SPEED_BONUS = 50;
+const COMBO_STEP = 0.25;
+const MAX_MULTIPLIER = 2;
+// Untimed questions still reward answering within this window
+const UNTIMED_BONUS_WINDOW_MS = 6000;
+
+export function comboMultiplier(combo: number): number {
+  return Math.min(MAX_MULTIPLIER, 1 + Math.max(0, combo - 1) * COMBO_STEP);
+}
+
+// Linear from the full bonus for an instant answer down to 0 at the time limit
+export function speedBonus(responseMs: number, timeLimitMs: number | null): number {
+  const window = timeLimitMs ?? UNTIMED_BONUS_WINDOW_MS;
+  const remaining = Math.max(0, 1 - responseMs / window);
+  return Math.round(MAX_SPEED_BONUS * remaining);
+}
+
+export interface AnswerScore {
+  points: number;
+  // Consecutive correct answers including this one
+  combo: number;
+}
+
+export function scoreAnswer(
+  isCorrect: boolean,
+  responseMs: number,
+  previousCombo: number,
+  timeLimitMs: number | null
+): AnswerScore {
+  if (!isCorrect) return { points: 0, combo: 0 };
+  const combo = previousCombo + 1;
+  const points = Math.round((BASE_POINTS + speedBonus(responseMs, timeLimitMs)) * comboMultiplier(combo));
+  return { points, combo };
+}
+
+export function computeStars(accuracy: number, rules: LevelRules): number {
+  if (accuracy < rules.passThreshold) return 0;
+  if (accuracy >= rules.starThresholds[1]) return 3;
+  if (accuracy >= rules.starThresholds[0]) return 2;
+  return 1;
+}
+
+export interface LevelScore {
+  score: number;
+  maxCombo: number;
+  correctCount: number;
+  accuracy: number;
+  passed: boolean;
+  stars: number;
+}
+
+export function scoreLevel(answers: UserAnswer[], totalWords: number, rules: LevelRules): LevelScore {
+  const correctCount = answers.filter(a => a.isCorrect).length;
+  const accuracy = totalWords > 0 ? (correctCount / totalWords) * 100 : 0;
+  return {
+    score: answers.reduce((sum, a) => sum + a.points, 0),
+    maxCombo: answers.reduce((max, a) => Math.max(max, a.combo), 0),
+    correctCount,
+    accuracy,
+    passed: accuracy >= rules.passThreshold,
+    stars: computeStars(accuracy, rules)
+  };
+}
@@ -0,0 +1,52 @@
+import { GameSession } from "../game/gameReducer";
+
+// Snapshot of the level being played, so a closed tab can pick up where it left off
+// with the same questions and option order.
+
+export interface SessionSnapshot {
+  session: GameSession;
+  // When the snapshot was taken; time from here until the session resumes is not played time
+  savedAt: number;
+}
+
+function isSnapshot(value: any): value is SessionSnapshot {
+  return value
+    && typeof value.savedAt === "number"
+    && value.session?.gameState === "PLAYING"
+    && Array.isArray(value.session.words)
+    && Array.isArray(value.session.answers)
+    && value.session.currentIndex < value.session.words.length;
+}
+
+export class SessionStore {
+  constructor(private storage: Storage = window.localStorage, private prefix = "ielts-game:session:") {}
+
+  private key(playerId: string): string {
+    return `${this.prefix}${playerId}`;
+  }
+
+  load(playerId: string): SessionSnapshot | null {
+    try {
+      const raw = this.storage.getItem(this.key(playerId));
+      const parsed = raw ? JSON.parse(raw) : null;
+      return isSnapshot(parsed) ? parsed : null;
+    } catch (error) {
+      console.warn("Failed to load interrupted session:", error);
+      return null;
+    }
+  }
+
+  save(playerId: string, session: GameSession, savedAt: number): void {
+    try {
+      this.storage.setItem(this.key(playerId), JSON.stringify({ session, savedAt }));
+    } catch (error) {
+      console.warn("Failed to save session snapshot:", error);
+    }
+  }
+
+  clear(playerId: string): void {
+    this.storage.removeItem(this.key(playerId));
+  }
+}
+
+export const sessionStore = new SessionStore();
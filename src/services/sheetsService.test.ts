@@ -0,0 +1,67 @@
+import { readFileSync } from "fs";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { GoogleSheetsService, SheetsFetchError, parseWordRows } from "./sheetsService";
+
+const FIXTURE = readFileSync(new URL("./__fixtures__/sheet-level-1.csv", import.meta.url), "utf8");
+
+// Serves the fixture as the gviz CSV export of tab 第1关; every other tab is missing
+let server: Server;
+let baseUrl: string;
+const requested: string[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    requested.push(`${url.pathname}?${url.searchParams.get("sheet")}`);
+    if (url.searchParams.get("sheet") !== "第1关") {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/csv; charset=utf-8" }).end(FIXTURE);
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe("GoogleSheetsService.fetchSheetWords", () => {
+  it("parses quoted cells, commas and multi-meaning translations from the fixture sheet", async () => {
+    const sheets = new GoogleSheetsService("sheet-id", baseUrl);
+    const { words } = await sheets.fetchSheetWords("第1关");
+
+    expect(requested).toContain("/sheet-id/gviz/tq?第1关");
+    expect(words).toEqual([
+      { word: "approach", translation: "接近；进入", partOfSpeech: "v.", example: "We approach the city, slowly." },
+      { word: "benefit", translation: "好处, 利益", partOfSpeech: "n." },
+      { word: "capacity", translation: "容量；能力", partOfSpeech: "n." }
+    ]);
+  });
+
+  it("reports bad rows with their sheet row numbers instead of dropping them", async () => {
+    const { errors } = await new GoogleSheetsService("sheet-id", baseUrl).fetchSheetWords("第1关");
+
+    expect(errors.map(e => e.row)).toEqual([5, 6, 7, 9]);
+    expect(errors[0]).toMatchObject({ reason: "缺少英文单词", cells: ["", "缺单词", "", ""] });
+    expect(errors[1].reason).toContain("123abc");
+    expect(errors[2].reason).toContain("decline");
+    expect(errors[3].reason).toContain('quote "test"');
+  });
+
+  it("throws SheetsFetchError with the status when the tab cannot be fetched", async () => {
+    await expect(new GoogleSheetsService("sheet-id", baseUrl).fetchSheetWords("第2关"))
+      .rejects.toMatchObject({ name: "SheetsFetchError", status: 404 });
+    await expect(new GoogleSheetsService("sheet-id", baseUrl).fetchSheetWords("第2关")).rejects.toBeInstanceOf(SheetsFetchError);
+  });
+});
+
+describe("parseWordRows", () => {
+  it("reads headerless sheets as word, translation", () => {
+    expect(parseWordRows([["abandon", "放弃；抛弃"], ["benefit", "好处"]]).words).toEqual([
+      { word: "abandon", translation: "放弃；抛弃" },
+      { word: "benefit", translation: "好处" }
+    ]);
+  });
+});
@@ -1,25 +1,148 @@
-import { GameRecord } from "../types";
+import { GameRecord, RawWord, WordImportResult, WordRowError } from "../types";
+import { parseCsv } from "./csvParser";
 
-// Note: Real Google Sheets integration usually requires a backend or a public CSV export.
-// For this demo, we'll implement a service that can be extended.
-// Users would need to provide a GOOGLE_SHEET_ID and potentially use a library like 'google-spreadsheet'.
+// Words are read from the public gviz CSV export of sheet tabs named after the
+// level (第N关, or e.g. CET4-第N关 for other curriculum tracks), so no
+// OAuth is needed as long as the sheet is shared as "anyone with the link".
+// Saving records still needs a backend; see saveRecord below.
+
+const DEFAULT_BASE_URL = "https://docs.google.com/spreadsheets/d";
+
+const WORD_HEADERS = ["word", "english", "单词", "英文"];
+const TRANSLATION_HEADERS = ["translation", "meaning", "chinese", "中文", "释义", "词义", "意思", "翻译"];
+// Optional columns for the answer feedback
+const POS_HEADERS = ["pos", "part of speech", "词性"];
+const EXAMPLE_TRANSLATION_HEADERS = ["example translation", "example_translation", "例句翻译", "例句释义"];
+const EXAMPLE_HEADERS = ["example", "sentence", "例句"];
+
+const ENGLISH_WORD = /^[A-Za-z][A-Za-z\s'.-]*$/;
+
+export class SheetsFetchError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = "SheetsFetchError";
+  }
+}
+
+function matchesHeader(cell: string, candidates: string[]): boolean {
+  const normalized = cell.trim().toLowerCase();
+  return candidates.some(c => normalized === c || normalized.startsWith(c));
+}
+
+interface Columns {
+  word: number;
+  translation: number;
+  // -1 when the sheet has no such column
+  partOfSpeech: number;
+  example: number;
+  exampleTranslation: number;
+}
+
+// Returns the column indexes if the row looks like a header, otherwise null
+function detectHeader(cells: string[]): Columns | null {
+  const word = cells.findIndex(c => matchesHeader(c, WORD_HEADERS));
+  const translation = cells.findIndex(c => matchesHeader(c, TRANSLATION_HEADERS));
+  if (word === -1 || translation === -1 || word === translation) return null;
+
+  // "例句翻译" also starts with "例句", so the translation column is found first
+  const exampleTranslation = cells.findIndex(c => matchesHeader(c, EXAMPLE_TRANSLATION_HEADERS));
+  const example = cells.findIndex((c, i) => i !== exampleTranslation && matchesHeader(c, EXAMPLE_HEADERS));
+  const partOfSpeech = cells.findIndex(c => matchesHeader(c, POS_HEADERS));
+  return { word, translation, partOfSpeech, example, exampleTranslation };
+}
+
+function optionalCell(cells: string[], index: number): string | undefined {
+  const value = index >= 0 ? (cells[index] ?? "").trim() : "";
+  return value || undefined;
+}
+
+// Unify separators between meanings: "接近; 进入" and "接近；进入" both become "接近；进入"
+export function normalizeTranslation(translation: string): string {
+  return translation
+    .split(/\s*[;；]\s*/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join("；");
+}
+
+export function parseWordRows(rows: string[][]): WordImportResult {
+  const words: RawWord[] = [];
+  const errors: WordRowError[] = [];
+  if (rows.length === 0) return { words, errors };
+
+  const header = detectHeader(rows[0]);
+  const columns = header ?? { word: 0, translation: 1, partOfSpeech: -1, example: -1, exampleTranslation: -1 };
+  const startRow = header ? 1 : 0;
+
+  for (let i = startRow; i < rows.length; i++) {
+    const cells = rows[i];
+    // Row numbers are 1-based to match what teachers see in the sheet
+    const row = i + 1;
+
+    if (cells.every(c => c.trim() === "")) continue;
+
+    const word = (cells[columns.word] ?? "").trim();
+    const translation = normalizeTranslation(cells[columns.translation] ?? "");
+
+    if (!word) {
+      errors.push({ row, reason: "缺少英文单词", cells });
+    } else if (!ENGLISH_WORD.test(word)) {
+      errors.push({ row, reason: `单词格式无效: "${word}"`, cells });
+    } else if (!translation) {
+      errors.push({ row, reason: `单词 "${word}" 缺少中文释义`, cells });
+    } else {
+      const partOfSpeech = optionalCell(cells, columns.partOfSpeech);
+      const example = optionalCell(cells, columns.example);
+      const exampleTranslation = optionalCell(cells, columns.exampleTranslation);
+      words.push({
+        word,
+        translation,
+        ...(partOfSpeech ? { partOfSpeech } : {}),
+        ...(example ? { example } : {}),
+        ...(exampleTranslation ? { exampleTranslation } : {})
+      });
+    }
+  }
+
+  return { words, errors };
+}
 
 export class GoogleSheetsService {
   private sheetId: string;
+  private baseUrl: string;
 
-  constructor(sheetId: string = "") {
+  // baseUrl can point at a local fixture server that serves
+  // `${baseUrl}/${sheetId}/gviz/tq?tqx=out:csv&sheet=<tab name>`
+  constructor(sheetId: string = "", baseUrl: string = DEFAULT_BASE_URL) {
     this.sheetId = sheetId;
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
   }
 
-  // Fetch words for a specific level
-  async fetchLevelWords(level: number): Promise<any[]> {
+  sheetUrl(sheet: string): string {
+    return `${this.baseUrl}/${this.sheetId}/gviz/tq?tqx=out:csv&sheet=${encodeURIComponent(sheet)}`;
+  }
+
+  levelUrl(level: number): string {
+    return this.sheetUrl(`第${level}关`);
+  }
+
+  // Fetch the words of one sheet tab
+  async fetchSheetWords(sheet: string): Promise<WordImportResult> {
     if (!this.sheetId) {
       console.warn("No Google Sheet ID provided. Using mock data.");
-      return [];
+      return { words: [], errors: [] };
+    }
+
+    const response = await fetch(this.sheetUrl(sheet));
+    if (!response.ok) {
+      throw new SheetsFetchError(`Failed to fetch sheet ${sheet}: ${response.status}`, response.status);
+    }
+
+    const result = parseWordRows(parseCsv(await response.text()));
+    if (result.errors.length > 0) {
+      console.warn(`Sheet ${sheet} has ${result.errors.length} invalid rows:`, result.errors);
     }
-    // In a real scenario, you'd fetch from:
-    // https://docs.google.com/spreadsheets/d/${this.sheetId}/gviz/tq?tqx=out:csv&sheet=第${level}关
-    return [];
+    return result;
   }
 
   // Save record to the '闯关记录' sheet
@@ -29,4 +152,7 @@ export class GoogleSheetsService {
   }
 }
 
-export const sheetsService = new GoogleSheetsService(process.env.VITE_GOOGLE_SHEET_ID);
+export const sheetsService = new GoogleSheetsService(
+  process.env.VITE_GOOGLE_SHEET_ID,
+  process.env.VITE_SHEETS_BASE_URL || DEFAULT_BASE_URL
+);
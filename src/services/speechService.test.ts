@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ListeningSession, SilentAudioAdapter, SpeechVoice, canListen, pickVoice } from "./speechService";
+
+const GB: SpeechVoice = { name: "Daniel", lang: "en-GB" };
+const US: SpeechVoice = { name: "Samantha", lang: "en_US" };
+const AU: SpeechVoice = { name: "Karen", lang: "en-AU" };
+const ZH: SpeechVoice = { name: "Ting-Ting", lang: "zh-CN" };
+
+// Stands in for the browser engine: counts cancels and can fail to speak
+class FakeAudioAdapter extends SilentAudioAdapter {
+  cancels = 0;
+  failing = false;
+
+  async speak(text: string, options = {}): Promise<void> {
+    if (this.failing) throw new Error("synthesis-failed");
+    return super.speak(text, options);
+  }
+
+  cancel(): void {
+    this.cancels += 1;
+  }
+}
+
+describe("pickVoice", () => {
+  it("prefers the requested voice", () => {
+    expect(pickVoice([GB, US, AU], "Karen")).toBe(AU);
+  });
+
+  it("falls back to en-GB, then en-US, then any English voice", () => {
+    expect(pickVoice([US, GB], "Missing")).toBe(GB);
+    expect(pickVoice([ZH, US, AU])).toBe(US);
+    expect(pickVoice([ZH, AU])).toBe(AU);
+  });
+
+  it("finds nothing without an English voice", () => {
+    expect(pickVoice([ZH])).toBeNull();
+    expect(pickVoice([])).toBeNull();
+  });
+});
+
+describe("canListen", () => {
+  it("needs speech support and an English voice", () => {
+    expect(canListen(new SilentAudioAdapter([GB]))).toBe(true);
+    expect(canListen(new SilentAudioAdapter([]))).toBe(false);
+    expect(canListen(new SilentAudioAdapter([ZH]))).toBe(false);
+    expect(canListen(new SilentAudioAdapter([GB], false))).toBe(false);
+  });
+});
+
+describe("ListeningSession", () => {
+  let adapter: FakeAudioAdapter;
+  let session: ListeningSession;
+
+  beforeEach(() => {
+    adapter = new FakeAudioAdapter([GB]);
+    session = new ListeningSession(adapter, { rate: 0.8, voiceName: "Daniel", maxPlays: 2 });
+  });
+
+  it("stops playing once the replay limit is reached", async () => {
+    await expect(session.play("abandon")).resolves.toBe(true);
+    await expect(session.play("abandon")).resolves.toBe(true);
+    expect(session.playsLeft).toBe(0);
+    await expect(session.play("abandon")).resolves.toBe(false);
+    expect(adapter.spoken).toEqual([
+      { text: "abandon", options: { rate: 0.8, voiceName: "Daniel" } },
+      { text: "abandon", options: { rate: 0.8, voiceName: "Daniel" } }
+    ]);
+  });
+
+  it("resets the plays and stops speech on the next question", async () => {
+    await session.play("abandon");
+    session.nextQuestion();
+    expect(session.playsLeft).toBe(2);
+    expect(adapter.cancels).toBe(1);
+  });
+
+  it("counts a failed play against the limit", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    adapter.failing = true;
+    await expect(session.play("abandon")).resolves.toBe(false);
+    expect(session.playsLeft).toBe(1);
+  });
+
+  it("does not play or use up plays without a voice", async () => {
+    const silent = new SilentAudioAdapter([]);
+    const noVoice = new ListeningSession(silent, { rate: 0.8, maxPlays: 2 });
+    await expect(noVoice.play("abandon")).resolves.toBe(false);
+    expect(noVoice.playsLeft).toBe(2);
+    expect(silent.spoken).toEqual([]);
+  });
+});
@@ -0,0 +1,160 @@
+// Speech goes through an AudioAdapter so the listening mode can run against a
+// fake engine in tests or degrade when the browser has no TTS voices.
+
+export interface SpeechVoice {
+  name: string;
+  lang: string;
+}
+
+export interface SpeakOptions {
+  rate?: number;
+  voiceName?: string;
+}
+
+export interface AudioAdapter {
+  isSupported(): boolean;
+  getVoices(): SpeechVoice[];
+  // Browsers load voices asynchronously; returns an unsubscribe function
+  onVoicesChanged(listener: () => void): () => void;
+  speak(text: string, options?: SpeakOptions): Promise<void>;
+  cancel(): void;
+}
+
+export const DEFAULT_RATE = 0.9;
+const FALLBACK_LANGS = ["en-GB", "en-US"];
+
+// The requested voice if it exists, otherwise en-GB, then en-US, then any English voice
+export function pickVoice(voices: SpeechVoice[], preferredName?: string): SpeechVoice | null {
+  if (preferredName) {
+    const preferred = voices.find(v => v.name === preferredName);
+    if (preferred) return preferred;
+  }
+  for (const lang of FALLBACK_LANGS) {
+    const match = voices.find(v => v.lang.replace("_", "-").toLowerCase() === lang.toLowerCase());
+    if (match) return match;
+  }
+  return voices.find(v => v.lang.toLowerCase().startsWith("en")) ?? null;
+}
+
+export class BrowserSpeechAdapter implements AudioAdapter {
+  private get synth(): SpeechSynthesis | null {
+    return typeof window !== "undefined" && "speechSynthesis" in window ? window.speechSynthesis : null;
+  }
+
+  isSupported(): boolean {
+    return this.synth !== null && typeof SpeechSynthesisUtterance !== "undefined";
+  }
+
+  getVoices(): SpeechVoice[] {
+    return this.synth?.getVoices().map(v => ({ name: v.name, lang: v.lang })) ?? [];
+  }
+
+  onVoicesChanged(listener: () => void): () => void {
+    const synth = this.synth;
+    if (!synth) return () => {};
+    synth.addEventListener("voiceschanged", listener);
+    return () => synth.removeEventListener("voiceschanged", listener);
+  }
+
+  speak(text: string, { rate = DEFAULT_RATE, voiceName }: SpeakOptions = {}): Promise<void> {
+    const synth = this.synth;
+    if (!synth || !text) return Promise.resolve();
+
+    // 强制停止当前正在播放或排队的语音，解决点击不响应的问题
+    synth.cancel();
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    const voice = pickVoice(this.getVoices(), voiceName);
+    const native = voice && synth.getVoices().find(v => v.name === voice.name);
+    if (native) utterance.voice = native;
+    utterance.lang = voice?.lang ?? "en-US";
+    utterance.rate = rate;
+
+    return new Promise((resolve, reject) => {
+      utterance.onend = () => resolve();
+      utterance.onerror = (event) => {
+        // Cancelling to start the next word is not a failure
+        if (event.error === "canceled" || event.error === "interrupted") resolve();
+        else reject(new Error(`Speech synthesis failed: ${event.error}`));
+      };
+      synth.speak(utterance);
+    });
+  }
+
+  cancel(): void {
+    this.synth?.cancel();
+  }
+}
+
+// Records what would have been spoken; for tests and environments without TTS
+export class SilentAudioAdapter implements AudioAdapter {
+  spoken: { text: string; options: SpeakOptions }[] = [];
+
+  constructor(private voices: SpeechVoice[] = [], private supported = true) {}
+
+  isSupported(): boolean {
+    return this.supported;
+  }
+
+  getVoices(): SpeechVoice[] {
+    return this.voices;
+  }
+
+  onVoicesChanged(): () => void {
+    return () => {};
+  }
+
+  async speak(text: string, options: SpeakOptions = {}): Promise<void> {
+    this.spoken.push({ text, options });
+  }
+
+  cancel(): void {}
+}
+
+export interface ListeningSettings {
+  rate: number;
+  voiceName?: string;
+  // Plays allowed per question, including the automatic first one
+  maxPlays: number;
+}
+
+export const DEFAULT_LISTENING_SETTINGS: ListeningSettings = {
+  rate: DEFAULT_RATE,
+  maxPlays: 3
+};
+
+// Listening mode needs an English voice; without one the word is shown instead
+export function canListen(adapter: AudioAdapter): boolean {
+  return adapter.isSupported() && pickVoice(adapter.getVoices()) !== null;
+}
+
+// Tracks plays for the current question so replays can be limited
+export class ListeningSession {
+  private plays = 0;
+
+  constructor(private adapter: AudioAdapter, private settings: ListeningSettings) {}
+
+  get playsLeft(): number {
+    return Math.max(0, this.settings.maxPlays - this.plays);
+  }
+
+  // Returns false when the replay limit is reached or speech is unavailable
+  async play(word: string): Promise<boolean> {
+    if (this.playsLeft === 0 || !canListen(this.adapter)) return false;
+    this.plays += 1;
+    try {
+      await this.adapter.speak(word, { rate: this.settings.rate, voiceName: this.settings.voiceName });
+      return true;
+    } catch (error) {
+      console.warn("Listening playback failed:", error);
+      return false;
+    }
+  }
+
+  nextQuestion(): void {
+    this.adapter.cancel();
+    this.plays = 0;
+  }
+}
+
+export const speechAdapter: AudioAdapter = new BrowserSpeechAdapter();
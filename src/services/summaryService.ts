@@ -0,0 +1,106 @@
+import { LevelResult, QuestionMode, TrackId } from "../types";
+import { DEFAULT_TRACK_ID } from "../game/curriculum";
+
+export interface LevelSummary {
+  track: TrackId;
+  level: number;
+  mode: QuestionMode;
+  attempts: number;
+  bestAccuracy: number;
+  totalDurationMs: number;
+}
+
+export interface WordStat {
+  word: string;
+  translation: string;
+  seen: number;
+  correct: number;
+  lastCorrect: boolean;
+}
+
+export interface TrendPoint {
+  label: string;
+  level: number;
+  accuracy: number;
+}
+
+export interface ProgressSummary {
+  totalSessions: number;
+  totalDurationMs: number;
+  levels: LevelSummary[];
+  masteredWords: WordStat[];
+  weakWords: WordStat[];
+  trend: TrendPoint[];
+}
+
+// A word counts as mastered once it is mostly answered right and the latest answer was right
+const MASTERY_RATE = 0.8;
+const TREND_LENGTH = 10;
+
+export function accuracyOf(result: LevelResult): number {
+  const { correctCount, totalWords } = result.record;
+  return totalWords > 0 ? (correctCount / totalWords) * 100 : 0;
+}
+
+export function computeWordStats(history: LevelResult[]): WordStat[] {
+  const stats = new Map<string, WordStat>();
+  for (const result of history) {
+    for (const answer of result.answers) {
+      const key = answer.word.toLowerCase();
+      const stat = stats.get(key) ?? { word: answer.word, translation: answer.translation, seen: 0, correct: 0, lastCorrect: false };
+      stat.seen += 1;
+      if (answer.isCorrect) stat.correct += 1;
+      stat.lastCorrect = answer.isCorrect;
+      stats.set(key, stat);
+    }
+  }
+  return [...stats.values()];
+}
+
+export function isMastered(stat: WordStat): boolean {
+  return stat.lastCorrect && stat.correct / stat.seen >= MASTERY_RATE;
+}
+
+// history is expected oldest first
+export function computeSummary(history: LevelResult[]): ProgressSummary {
+  // Tracks and question modes differ in difficulty, so each level is summarised per track and mode
+  const levels = new Map<string, LevelSummary>();
+  let totalDurationMs = 0;
+
+  for (const result of history) {
+    totalDurationMs += result.durationMs;
+    // Word-list and imported-list runs still count as practice, but say nothing about a curriculum level
+    if (result.record.source && result.record.source !== "LEVEL") continue;
+    const track = result.record.track ?? DEFAULT_TRACK_ID;
+    const level = result.record.maxLevel;
+    const mode = result.record.mode ?? "EN_TO_ZH";
+    const key = `${track}:${level}:${mode}`;
+    const accuracy = accuracyOf(result);
+    const entry = levels.get(key) ?? { track, level, mode, attempts: 0, bestAccuracy: 0, totalDurationMs: 0 };
+    entry.attempts += 1;
+    entry.bestAccuracy = Math.max(entry.bestAccuracy, accuracy);
+    entry.totalDurationMs += result.durationMs;
+    levels.set(key, entry);
+  }
+
+  const words = computeWordStats(history);
+  const masteredWords = words.filter(isMastered);
+  const weakWords = words
+    .filter(stat => !isMastered(stat))
+    .sort((a, b) => a.correct / a.seen - b.correct / b.seen || b.seen - a.seen);
+
+  const trend = history.slice(-TREND_LENGTH).map(result => ({
+    label: result.record.startTime,
+    level: result.record.maxLevel,
+    accuracy: accuracyOf(result)
+  }));
+
+  return {
+    totalSessions: history.length,
+    totalDurationMs,
+    levels: [...levels.values()].sort((a, b) => a.track.localeCompare(b.track) || a.level - b.level || a.mode.localeCompare(b.mode)),
+    masteredWords,
+    weakWords,
+    trend
+  };
+}
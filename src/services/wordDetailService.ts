@@ -0,0 +1,99 @@
+import { RawWord, WordDetails } from "../types";
+import { geminiService } from "./geminiService";
+import { PartOfSpeech, inferPartOfSpeech } from "./localDistractors";
+
+// Extras for the answer feedback (part of speech, example sentence). Words
+// whose source already has them are left alone; the rest come from the cache,
+// then from one Gemini request per batch. Without Gemini configured only the part of
+// speech is guessed locally.
+
+export type WordDetailGenerator = (words: RawWord[]) => Promise<Map<string, WordDetails>>;
+
+const POS_LABELS: Record<PartOfSpeech, string | undefined> = {
+  noun: "n.",
+  verb: "v.",
+  adj: "adj.",
+  adv: "adv.",
+  unknown: undefined
+};
+
+function cacheKey(word: RawWord): string {
+  return word.word.trim().toLowerCase();
+}
+
+export class WordDetailCache {
+  private entries: Record<string, WordDetails> | null = null;
+
+  constructor(private storage: Storage | null = window.localStorage, private key = "ielts-game:word-details") {}
+
+  private load(): Record<string, WordDetails> {
+    if (!this.entries) {
+      try {
+        const raw = this.storage?.getItem(this.key);
+        this.entries = raw ? JSON.parse(raw) : {};
+      } catch (error) {
+        console.warn("Failed to load word details:", error);
+        this.entries = {};
+      }
+    }
+    return this.entries!;
+  }
+
+  get(key: string): WordDetails | undefined {
+    return this.load()[key];
+  }
+
+  set(entries: Map<string, WordDetails>): void {
+    const all = this.load();
+    entries.forEach((value, key) => {
+      all[key] = value;
+    });
+    try {
+      this.storage?.setItem(this.key, JSON.stringify(all));
+    } catch (error) {
+      console.warn("Failed to save word details:", error);
+    }
+  }
+}
+
+export class WordDetailService {
+  constructor(
+    private generate: WordDetailGenerator | null,
+    private cache: WordDetailCache,
+    private batchSize = 50
+  ) {}
+
+  // Same words in the same order, with whatever details could be found
+  async fillDetails(words: RawWord[]): Promise<RawWord[]> {
+    const withCache = words.map(w => (w.example ? w : { ...this.cache.get(cacheKey(w)), ...w }));
+    const missing = withCache.filter(w => !w.example);
+
+    if (this.generate && missing.length > 0) {
+      const generated = new Map<string, WordDetails>();
+      for (let i = 0; i < missing.length; i += this.batchSize) {
+        try {
+          (await this.generate(missing.slice(i, i + this.batchSize))).forEach((value, key) => generated.set(key, value));
+        } catch (error) {
+          // Feedback without an example sentence is still useful, so this never fails the level
+          console.warn("Failed to generate word details:", error);
+          break;
+        }
+      }
+      this.cache.set(generated);
+      return withCache.map(w => this.withPartOfSpeech(w.example ? w : { ...generated.get(cacheKey(w)), ...w }));
+    }
+
+    return withCache.map(w => this.withPartOfSpeech(w));
+  }
+
+  private withPartOfSpeech(word: RawWord): RawWord {
+    if (word.partOfSpeech) return word;
+    const guess = POS_LABELS[inferPartOfSpeech(word)];
+    return guess ? { ...word, partOfSpeech: guess } : word;
+  }
+}
+
+export const wordDetailService = new WordDetailService(
+  geminiService.available ? words => geminiService.generateWordDetailsBatch(words) : null,
+  new WordDetailCache(typeof window !== "undefined" ? window.localStorage : null)
+);
@@ -0,0 +1,152 @@
+import { RawWord, WordDetails, WordImportResult, WordRowError } from "../types";
+import { parseCsv } from "./csvParser";
+import { normalizeTranslation, parseWordRows } from "./sheetsService";
+
+// Custom word lists uploaded by teachers: CSV, JSON or an Anki "Notes in Plain Text" export.
+
+export type WordListFormat = "csv" | "json" | "anki";
+
+export function detectFormat(text: string, fileName = ""): WordListFormat {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "json") return "json";
+  if (ext === "csv") return "csv";
+  if (ext === "txt" || ext === "tsv") return "anki";
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) return "json";
+  // Anki exports are tab separated and usually start with #separator:tab
+  if (trimmed.startsWith("#") || trimmed.split(/\r?\n/, 1)[0].includes("\t")) return "anki";
+  return "csv";
+}
+
+function stripHtml(text: string): string {
+  return text
+    .replace(/<br\s*\/?>/gi, "；")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .trim();
+}
+
+// Anki plain-text export: one note per line, fields separated by tabs, header
+// lines like "#separator:tab" or "#html:true". Fields may contain HTML.
+export function parseAnki(text: string): WordImportResult {
+  const rows: string[][] = [];
+  const lineNumbers: number[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (line.startsWith("#") || !line.trim()) return;
+    rows.push(line.split("\t").map(stripHtml));
+    lineNumbers.push(i + 1);
+  });
+  const result = parseWordRows(rows);
+  // parseWordRows numbers rows by position; map them back to file lines
+  return {
+    words: result.words,
+    errors: result.errors.map(e => ({ ...e, row: lineNumbers[e.row - 1] ?? e.row }))
+  };
+}
+
+function pick(item: Record<string, unknown>, keys: string[]): string {
+  for (const key of keys) {
+    const value = item[key];
+    if (typeof value === "string") return value;
+  }
+  return "";
+}
+
+function stripEmpty(details: WordDetails): WordDetails {
+  return Object.fromEntries(Object.entries(details).filter(([, value]) => value));
+}
+
+// Accepts [{word, translation}], [{front, back}], [["word", "释义"]] or {"word": "释义"}
+export function parseJson(text: string): WordImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { words: [], errors: [{ row: 1, reason: `JSON 格式错误: ${(error as Error).message}`, cells: [] }] };
+  }
+
+  const entries: unknown[] = Array.isArray(data)
+    ? data
+    : data && typeof data === "object"
+      ? Object.entries(data as Record<string, unknown>)
+      : [];
+
+  const words: RawWord[] = [];
+  const errors: WordRowError[] = [];
+  entries.forEach((entry, i) => {
+    let word = "";
+    let translation = "";
+    let details: WordDetails = {};
+    if (Array.isArray(entry)) {
+      [word, translation] = entry.map(v => (typeof v === "string" ? v : ""));
+    } else if (entry && typeof entry === "object") {
+      const item = entry as Record<string, unknown>;
+      word = pick(item, ["word", "english", "front", "term"]);
+      translation = pick(item, ["translation", "meaning", "chinese", "back", "definition"]);
+      details = {
+        partOfSpeech: pick(item, ["partOfSpeech", "pos"]) || undefined,
+        example: pick(item, ["example", "sentence"]) || undefined,
+        exampleTranslation: pick(item, ["exampleTranslation"]) || undefined
+      };
+    }
+
+    if (!word && !translation) {
+      errors.push({ row: i + 1, reason: "无法识别的条目", cells: [JSON.stringify(entry)] });
+      return;
+    }
+
+    const parsed = parseWordRows([[word ?? "", translation ?? ""]]);
+    words.push(...parsed.words.map(w => ({ ...w, ...stripEmpty(details) })));
+    errors.push(...parsed.errors.map(e => ({ ...e, row: i + 1, cells: [String(word ?? ""), String(translation ?? "")] })));
+  });
+  return { words, errors };
+}
+
+export function parseWordList(text: string, format: WordListFormat): WordImportResult {
+  switch (format) {
+    case "json":
+      return parseJson(text);
+    case "anki":
+      return parseAnki(text);
+    default:
+      return parseWordRows(parseCsv(text));
+  }
+}
+
+// Keeps the first occurrence of each word. Later copies are reported, and a
+// copy with a new meaning is merged into the first one instead of dropped.
+export function dedupeWords(words: RawWord[]): { words: RawWord[]; duplicates: string[] } {
+  const byWord = new Map<string, RawWord>();
+  const duplicates: string[] = [];
+  for (const w of words) {
+    const key = w.word.trim().toLowerCase();
+    const existing = byWord.get(key);
+    if (!existing) {
+      byWord.set(key, { ...w, word: w.word.trim() });
+      continue;
+    }
+    duplicates.push(w.word);
+    // Keep the first example / part of speech that a duplicate row provides
+    existing.partOfSpeech ??= w.partOfSpeech;
+    existing.example ??= w.example;
+    existing.exampleTranslation ??= w.exampleTranslation;
+    if (!existing.translation.split("；").includes(w.translation)) {
+      existing.translation = normalizeTranslation(`${existing.translation}；${w.translation}`);
+    }
+  }
+  return { words: [...byWord.values()], duplicates };
+}
+
+export function splitIntoLevels(words: RawWord[], levelSize: number): RawWord[][] {
+  const size = Math.max(1, Math.floor(levelSize));
+  const levels: RawWord[][] = [];
+  for (let i = 0; i < words.length; i += size) {
+    levels.push(words.slice(i, i + size));
+  }
+  return levels;
+}
@@ -1,11 +1,64 @@
-export interface Word {
-  id: number;
+// EN_TO_ZH: 英译中 pick the meaning, ZH_TO_EN: 中译英 pick the word,
+// SPELLING: 中译英 type the word (options is empty),
+// LISTENING: hear the word without seeing it, pick the meaning
+export type QuestionMode = 'EN_TO_ZH' | 'ZH_TO_EN' | 'SPELLING' | 'LISTENING';
+
+// Optional extras shown in the answer feedback; from Sheets columns or Gemini
+export interface WordDetails {
+  partOfSpeech?: string;
+  example?: string;
+  exampleTranslation?: string;
+}
+
+export interface Word extends WordDetails {
+  // Stable across sessions, see game/wordId.ts
+  id: string;
   word: string;
   translation: string;
+  mode: QuestionMode;
   options: string[];
   correctAnswer: string;
 }
 
+export interface RawWord extends WordDetails {
+  word: string;
+  translation: string;
+}
+
+export interface WordRowError {
+  row: number;
+  reason: string;
+  cells: string[];
+}
+
+export interface WordImportResult {
+  words: RawWord[];
+  errors: WordRowError[];
+}
+
+export interface CustomWordList {
+  name: string;
+  levels: RawWord[][];
+  createdAt: string;
+}
+
+export type TrackId = 'IELTS' | 'CET4' | 'TOEFL';
+
+export interface LevelPackWord extends RawWord {
+  // Wrong Chinese meanings for the 英译中 and 听力 options
+  distractors: string[];
+}
+
+// A level downloaded ahead of time so it can be played without network
+export interface LevelPack {
+  trackId: TrackId;
+  level: number;
+  words: LevelPackWord[];
+  downloadedAt: string;
+  // Where the words came from; missing on packs downloaded before it was kept
+  source?: 'sheets' | 'builtin' | 'gemini';
+}
+
 export interface GameRecord {
   playerNo: string;
   playerId: string;
@@ -16,6 +69,193 @@ export interface GameRecord {
   totalWords: number;
   correctCount: number;
   accuracy: string;
+  mode: QuestionMode;
+  score: number;
+  // 0 when the level was not passed, otherwise 1-3
+  stars: number;
+  // Set when the player has joined a class / is playing one of its assignments
+  classId?: string;
+  assignmentId?: number;
+  // Set when the level was played as a seeded challenge
+  challengeSeed?: string;
+  // Curriculum track; missing on records from before tracks existed (IELTS)
+  track?: TrackId;
+  // Set when the level was played in a live multiplayer room
+  roomCode?: string;
+  // Missing on records from before word-list assignments were told apart (LEVEL)
+  source?: RecordSource;
+}
+
+// WORD_LIST runs play a teacher's word list and CUSTOM_LIST runs a level of the player's
+// imported list, not one of the curriculum levels; maxLevel is then only the level whose
+// rules were used. Only LEVEL runs are ranked, unlock levels and complete assignments.
+export type RecordSource = 'LEVEL' | 'WORD_LIST' | 'CUSTOM_LIST';
+
+// One per question, in question order: answers[i] answers words[i]
+export interface UserAnswer {
+  wordId: string;
+  selected: string;
+  isCorrect: boolean;
+  responseMs: number;
+  // The question's countdown ran out; selected is empty
+  timedOut: boolean;
+  points: number;
+  combo: number;
+}
+
+// A single answer as persisted by the backend, independent of in-level word ids
+export interface AnswerDetail {
+  word: string;
+  translation: string;
+  selected: string;
+  isCorrect: boolean;
+}
+
+// Payload posted to the backend when a level is finished
+export interface LevelResult {
+  record: GameRecord;
+  durationMs: number;
+  answers: AnswerDetail[];
+}
+
+export interface StoredLevelResult extends LevelResult {
+  id: number;
+  createdAt: string;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  playerId: string;
+  level: number;
+  accuracy: number;
+  durationMs: number;
+  endTime: string;
+}
+
+export interface PlayerProgress {
+  playerId: string;
+  // Progress is kept separately for every curriculum track
+  trackId: TrackId;
+  unlockedLevel: number;
+  // Best accuracy (0-100) keyed by level number
+  bestAccuracy: Record<number, number>;
+  bestStars: Record<number, number>;
+  bestScore: Record<number, number>;
+  lastPlayedAt: string | null;
+}
+
+export type AchievementId =
+  | 'FIRST_LEVEL'
+  | 'FIRST_PASS'
+  | 'PERFECT_LEVEL'
+  | 'COMBO_20'
+  | 'SPEED_RUN'
+  | 'CHALLENGER'
+  | 'TRACK_COMPLETE'
+  | 'WORDS_100'
+  | 'STREAK_3'
+  | 'STREAK_7'
+  | 'STREAK_30';
+
+export interface PracticeStreak {
+  // Consecutive days with at least one finished level or review, up to lastPracticeDate
+  current: number;
+  longest: number;
+  // YYYY-MM-DD in local time
+  lastPracticeDate: string | null;
+}
+
+// Who the player is in the lobby. playerId stays the key for records and progress;
+// the nickname and avatar are only shown in this browser.
+export interface PlayerProfile {
+  playerId: string;
+  nickname: string;
+  avatar: string;
+  streak: PracticeStreak;
+  // Unlock time (ISO) of every achievement earned so far
+  achievements: Partial<Record<AchievementId, string>>;
+  createdAt: string;
+}
+
+// How one player does on one word, across every session and level
+export interface WordMastery {
+  wordId: string;
+  word: string;
+  translation: string;
+  seen: number;
+  correct: number;
+  // Sum over all answers, for the average response time
+  totalResponseMs: number;
+  // Levels the word was answered in
+  levels: number[];
+  lastSeenAt: string;
+  lastCorrect: boolean;
+}
+
+// A missed word scheduled for review with SM-2
+export interface ReviewItem {
+  word: string;
+  translation: string;
+  easeFactor: number;
+  // Days until the next review after the current one
+  interval: number;
+  repetitions: number;
+  // Local calendar date, YYYY-MM-DD
+  dueDate: string;
+  lapses: number;
+}
+
+export interface ClassInfo {
+  classId: string;
+  name: string;
+  teacherName: string;
+  joinCode: string;
+}
+
+// Returned only to the teacher who created the class
+export interface TeacherClass extends ClassInfo {
+  teacherKey: string;
+}
+
+export interface Assignment {
+  id: number;
+  classId: string;
+  title: string;
+  levels: number[];
+  // A custom word list instead of (or besides) levels
+  words: RawWord[] | null;
+  // YYYY-MM-DD
+  dueDate: string;
+  createdAt: string;
+}
+
+export interface AssignmentProgress {
+  assignmentId: number;
+  completedLevels: number;
+  totalLevels: number;
+  completed: boolean;
+}
+
+export interface MissedWord {
+  word: string;
+  translation: string;
+  misses: number;
+}
+
+export interface StudentReport {
+  playerId: string;
+  joinedAt: string;
+  attempts: number;
+  // Average over the student's class records, null before the first one
+  accuracy: number | null;
+  assignments: AssignmentProgress[];
+  missedWords: MissedWord[];
+}
+
+export interface ClassReport {
+  classInfo: ClassInfo;
+  assignments: Assignment[];
+  students: StudentReport[];
 }
 
 export interface LevelConfig {
@@ -23,4 +263,65 @@ export interface LevelConfig {
   words: Word[];
 }
 
-export type GameState = 'LOBBY' | 'PLAYING' | 'RESULT' | 'SUMMARY';
+export type SessionMode = 'LEVEL' | 'REVIEW';
+
+export type GameState = 'LOBBY' | 'PLAYING' | 'RESULT' | 'SUMMARY' | 'IMPORT' | 'TEACHER' | 'LEADERBOARD' | 'PROFILE' | 'ROOM';
+
+// Live multiplayer rooms (server/rooms.ts): a host opens a room, players join with their
+// playerId and everyone answers the same question at the same time.
+
+export type RoomPhase = 'LOBBY' | 'QUESTION' | 'REVEAL' | 'FINISHED';
+
+export interface RoomSettings {
+  track: TrackId;
+  level: number;
+  mode: QuestionMode;
+  questionTimeMs: number;
+}
+
+// A question as players receive it: the prompt of its mode and the options, nothing that
+// gives the answer away. The word, the translation and the answer come with the reveal.
+export interface RoomQuestion {
+  // q0, q1, … by position; word ids are the English word itself
+  id: string;
+  mode: QuestionMode;
+  // The English word for EN_TO_ZH, the Chinese meaning for ZH_TO_EN and SPELLING
+  prompt: string;
+  // Empty for SPELLING
+  options: string[];
+}
+
+export interface RoomStanding {
+  rank: number;
+  playerId: string;
+  score: number;
+  correctCount: number;
+  // Points earned on the last revealed question
+  lastPoints: number;
+  connected: boolean;
+}
+
+export type RoomClientMessage =
+  // record: false keeps the results out of history, e.g. for test games with bots
+  | { type: 'create'; hostId: string; settings: RoomSettings; words: Word[]; record?: boolean }
+  | { type: 'join'; code: string; playerId: string }
+  | { type: 'start' }
+  | { type: 'answer'; index: number; selected: string };
+
+export type RoomServerMessage =
+  | { type: 'room'; code: string; hostId: string; settings: RoomSettings; phase: RoomPhase; totalQuestions: number; players: RoomStanding[] }
+  | { type: 'question'; index: number; total: number; question: RoomQuestion; timeLimitMs: number }
+  | { type: 'answered'; index: number; answered: number; players: number }
+  | {
+      type: 'reveal';
+      index: number;
+      word: string;
+      translation: string;
+      correctAnswer: string;
+      // Only sent to players, not to the host
+      yourAnswer?: { selected: string; isCorrect: boolean; points: number };
+      ranking: RoomStanding[];
+    }
+  | { type: 'finished'; ranking: RoomStanding[] }
+  | { type: 'closed'; reason: string }
+  | { type: 'error'; message: string };
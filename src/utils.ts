@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { AudioAdapter, speechAdapter } from './services/speechService';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -12,13 +13,52 @@ export function formatDuration(ms: number): string {
   return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
 }
 
-export function playWord(word: string) {
+export function playWord(word: string, adapter: AudioAdapter = speechAdapter) {
   if (!word) return;
-  // 强制停止当前正在播放或排队的语音，解决点击不响应的问题
-  window.speechSynthesis.cancel();
-  
-  const utterance = new SpeechSynthesisUtterance(word);
-  utterance.lang = 'en-US';
-  utterance.rate = 0.9; // 稍微放慢一点语速，听得更清楚
-  window.speechSynthesis.speak(utterance);
+  adapter.speak(word).catch(error => console.warn("Failed to play word:", error));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Retries `fn` with exponential backoff: baseDelayMs, 2x, 4x...
+// Errors for which `shouldRetry` returns false are thrown straight away.
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  {
+    retries = 3,
+    baseDelayMs = 500,
+    shouldRetry = () => true
+  }: { retries?: number; baseDelayMs?: number; shouldRetry?: (error: unknown) => boolean } = {}
+): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error;
+      if (!shouldRetry(error)) throw error;
+      if (attempt < retries) await sleep(baseDelayMs * 2 ** attempt);
+    }
+  }
+  throw lastError;
+}
+
+// Like Promise.all over items.map(fn), but with at most `limit` calls in flight
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
 }
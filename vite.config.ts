@@ -1,14 +1,40 @@
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
-import {defineConfig, loadEnv} from 'vite';
+import {defineConfig, loadEnv, Plugin} from 'vite';
+
+// Writes the built file names to sw-assets.js, which public/sw.js imports to precache
+// them at install. The list changes with every build, so browsers see a new service worker.
+function precacheManifest(): Plugin {
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const assets = Object.keys(bundle)
+        .filter(fileName => fileName !== 'index.html' && !fileName.endsWith('.map'))
+        .map(fileName => `/${fileName}`);
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw-assets.js',
+        source: `self.PRECACHE_ASSETS = ${JSON.stringify(assets)};\n`,
+      });
+    },
+  };
+}
 
 export default defineConfig(({mode}) => {
   const env = loadEnv(mode, '.', '');
   return {
-    plugins: [react(), tailwindcss()],
+    plugins: [react(), tailwindcss(), precacheManifest()],
     define: {
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL),
+      'process.env.GEMINI_TIMEOUT_MS': JSON.stringify(env.GEMINI_TIMEOUT_MS),
+      'process.env.VITE_GEMINI_PROVIDER': JSON.stringify(env.VITE_GEMINI_PROVIDER),
+      'process.env.VITE_GOOGLE_SHEET_ID': JSON.stringify(env.VITE_GOOGLE_SHEET_ID),
+      'process.env.VITE_SHEETS_BASE_URL': JSON.stringify(env.VITE_SHEETS_BASE_URL),
+      'process.env.VITE_API_BASE_URL': JSON.stringify(env.VITE_API_BASE_URL),
+      'process.env.VITE_DISTRACTOR_PROVIDER': JSON.stringify(env.VITE_DISTRACTOR_PROVIDER),
     },
     resolve: {
       alias: {
@@ -19,6 +45,10 @@ export default defineConfig(({mode}) => {
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
       // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== 'true',
+      proxy: {
+        // ws: live rooms are a WebSocket under /api/rooms
+        '/api': { target: `http://localhost:${env.API_PORT || 3001}`, ws: true },
+      },
     },
   };
 });